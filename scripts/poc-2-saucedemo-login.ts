@@ -11,6 +11,7 @@ import * as path from "path";
  * - Form interaction (type with clear)
  * - Login flow with validation
  * - waitForSelector for post-navigation validation
+ * - Saving the logged-in storage state for reuse (launch({ storageState }))
  * - No manual sleeps or waits
  */
 
@@ -56,6 +57,11 @@ async function main() {
     await browserManager.screenshot({ path: screenshotPath });
     logger.info(`📸 Screenshot saved: ${screenshotPath}`);
 
+    // Save logged-in state so other scripts can skip the UI login:
+    //   browserManager.launch({ storageState: "saucedemo-standard-user" })
+    const statePath = await browserManager.saveStorageState("saucedemo-standard-user");
+    logger.info(`🔐 Storage state saved: ${statePath}`);
+
     logger.info("✅ POC 2 OK");
   } catch (error) {
     logger.error("❌ POC 2 failed:", error);
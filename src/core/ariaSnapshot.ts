@@ -0,0 +1,348 @@
+/**
+ * Aria Snapshot - Compact accessibility tree of a page with element refs
+ *
+ * The tree is computed in the page: roles (explicit or implicit), accessible
+ * names and states of visible elements. Only meaningful nodes are kept
+ * (interactive controls, headings, images, landmarks, explicit roles);
+ * other elements are flattened away.
+ *
+ * Every interactive node gets a short ref (e1, e2, ...) stored in the
+ * `data-mcp-ref` attribute, so it can be targeted later with
+ * `[data-mcp-ref="e5"]`. Ref numbers keep increasing across snapshots of a
+ * page, so a ref from an older snapshot can never point at another element.
+ */
+
+import { Page } from 'playwright';
+
+export const REF_ATTRIBUTE = 'data-mcp-ref';
+
+// Upper bound of nodes in one snapshot (keeps agent context small)
+const MAX_NODES = 800;
+
+export interface SnapshotNode {
+  role: string;
+  name: string;
+  ref?: string;
+  level?: number;
+  value?: string;
+  states: string[];
+  children: SnapshotNode[];
+}
+
+export interface SnapshotRef {
+  role: string;
+  name: string;
+}
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  nodes: SnapshotNode[];
+  refs: Map<string, SnapshotRef>;
+  truncated: boolean;
+  /** Next ref number to use for this page */
+  nextRef: number;
+}
+
+/**
+ * Capture the accessibility snapshot of a page and tag interactive elements with refs
+ *
+ * @param page - Page to snapshot (main frame only)
+ * @param firstRef - Number of the first ref to assign
+ */
+export async function captureSnapshot(page: Page, firstRef: number): Promise<PageSnapshot> {
+  const result = await page.evaluate(buildSnapshotInPage, {
+    refAttribute: REF_ATTRIBUTE,
+    firstRef,
+    maxNodes: MAX_NODES,
+  });
+
+  const refs = new Map<string, SnapshotRef>();
+  const collectRefs = (nodes: SnapshotNode[]) => {
+    for (const node of nodes) {
+      if (node.ref) {
+        refs.set(node.ref, { role: node.role, name: node.name });
+      }
+      collectRefs(node.children);
+    }
+  };
+  collectRefs(result.nodes);
+
+  return {
+    url: page.url(),
+    title: await page.title(),
+    nodes: result.nodes,
+    refs,
+    truncated: result.truncated,
+    nextRef: result.nextRef,
+  };
+}
+
+/**
+ * Format snapshot nodes as an indented outline
+ *
+ * Example:
+ *   - heading "Products" [level=1]
+ *   - textbox "Username" [ref=e3] [value="standard_user"]
+ *   - button "Login" [ref=e5] [disabled]
+ */
+export function formatSnapshot(nodes: SnapshotNode[], depth = 0): string {
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    let line = `${'  '.repeat(depth)}- ${node.role}`;
+    if (node.name) line += ` ${JSON.stringify(node.name)}`;
+    if (node.ref) line += ` [ref=${node.ref}]`;
+    if (node.level) line += ` [level=${node.level}]`;
+    if (node.value !== undefined) line += ` [value=${JSON.stringify(node.value)}]`;
+    for (const state of node.states) line += ` [${state}]`;
+
+    lines.push(line);
+
+    if (node.children.length > 0) {
+      lines.push(formatSnapshot(node.children, depth + 1));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Runs inside the page - must be self-contained (no closures over module scope)
+ */
+function buildSnapshotInPage(args: { refAttribute: string; firstRef: number; maxNodes: number }): {
+  nodes: SnapshotNode[];
+  truncated: boolean;
+  nextRef: number;
+} {
+  const { refAttribute, maxNodes } = args;
+  let nextRef = args.firstRef;
+  let nodeCount = 0;
+  let truncated = false;
+
+  const INTERACTIVE_ROLES = new Set([
+    'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox',
+    'menuitemradio', 'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch',
+    'tab', 'textbox', 'treeitem',
+  ]);
+  const LANDMARK_ROLES = new Set([
+    'banner', 'complementary', 'contentinfo', 'dialog', 'alertdialog', 'form', 'main',
+    'navigation', 'region', 'search', 'alert',
+  ]);
+
+  // Drop refs from previous snapshots
+  document.querySelectorAll(`[${refAttribute}]`).forEach((el) => el.removeAttribute(refAttribute));
+
+  const normalize = (text: string | null | undefined, max = 100): string => {
+    const collapsed = (text ?? '').replace(/\s+/g, ' ').trim();
+    return collapsed.length > max ? collapsed.substring(0, max) + '...' : collapsed;
+  };
+
+  const implicitRole = (el: Element): string | null => {
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') ?? '').toLowerCase();
+
+    switch (tag) {
+      case 'a':
+      case 'area':
+        return el.hasAttribute('href') ? 'link' : null;
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'input':
+        if (type === 'hidden') return null;
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        if (['file', 'color', 'date', 'datetime-local', 'month', 'time', 'week'].includes(type)) return 'button';
+        return 'textbox';
+      case 'textarea':
+        return 'textbox';
+      case 'select':
+        return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1 ? 'listbox' : 'combobox';
+      case 'option':
+        return 'option';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'img':
+        return el.getAttribute('alt') === '' ? null : 'img';
+      case 'nav':
+        return 'navigation';
+      case 'main':
+        return 'main';
+      case 'aside':
+        return 'complementary';
+      case 'form':
+        return 'form';
+      case 'dialog':
+        return 'dialog';
+      case 'header':
+        return el.closest('article, aside, main, nav, section') ? null : 'banner';
+      case 'footer':
+        return el.closest('article, aside, main, nav, section') ? null : 'contentinfo';
+      case 'section':
+        return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : null;
+      default:
+        return (el as HTMLElement).isContentEditable && !el.parentElement?.isContentEditable ? 'textbox' : null;
+    }
+  };
+
+  const textOfIds = (ids: string): string =>
+    ids
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent ?? '')
+      .join(' ');
+
+  const accessibleName = (el: Element, role: string): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) return normalize(textOfIds(labelledBy));
+
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel) return normalize(ariaLabel);
+
+    const tag = el.tagName.toLowerCase();
+
+    if (['input', 'textarea', 'select'].includes(tag)) {
+      const input = el as HTMLInputElement;
+      const labels = input.labels ? Array.from(input.labels).map((label) => label.textContent).join(' ') : '';
+      if (normalize(labels)) return normalize(labels);
+
+      const type = (el.getAttribute('type') ?? '').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type)) {
+        return normalize(input.value || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : ''));
+      }
+      if (type === 'image') return normalize(el.getAttribute('alt'));
+
+      return normalize(el.getAttribute('placeholder') || el.getAttribute('title'));
+    }
+
+    if (tag === 'img') return normalize(el.getAttribute('alt') || el.getAttribute('title'));
+
+    if (['button', 'link', 'heading', 'option', 'tab', 'menuitem', 'treeitem', 'checkbox', 'radio', 'switch'].includes(role)) {
+      return normalize((el as HTMLElement).innerText ?? el.textContent) || normalize(el.getAttribute('title'));
+    }
+
+    return normalize(el.getAttribute('title'));
+  };
+
+  const statesOf = (el: Element, role: string): { states: string[]; value?: string; level?: number } => {
+    const states: string[] = [];
+    const input = el as HTMLInputElement;
+
+    if ((el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') states.push('disabled');
+
+    if (role === 'checkbox' || role === 'radio' || role === 'switch' || role.startsWith('menuitem')) {
+      const ariaChecked = el.getAttribute('aria-checked');
+      if (input.checked || ariaChecked === 'true') states.push('checked');
+      else if (ariaChecked === 'mixed' || input.indeterminate) states.push('mixed');
+    }
+
+    const expanded = el.getAttribute('aria-expanded');
+    if (expanded === 'true') states.push('expanded');
+    if (expanded === 'false') states.push('collapsed');
+
+    if ((el as HTMLOptionElement).selected || el.getAttribute('aria-selected') === 'true') states.push('selected');
+    if (el.getAttribute('aria-pressed') === 'true') states.push('pressed');
+    if (input.required || el.getAttribute('aria-required') === 'true') states.push('required');
+    if (input.readOnly || el.getAttribute('aria-readonly') === 'true') states.push('readonly');
+    if (document.activeElement === el) states.push('focused');
+
+    let value: string | undefined;
+    if (role === 'textbox' || role === 'searchbox' || role === 'spinbutton' || role === 'combobox' || role === 'slider') {
+      const tag = el.tagName.toLowerCase();
+      if (tag === 'select') {
+        value = normalize((el as HTMLSelectElement).selectedOptions[0]?.textContent);
+      } else if (tag === 'input' || tag === 'textarea') {
+        value = input.type === 'password' && input.value ? '••••' : normalize(input.value, 200);
+      } else {
+        value = normalize((el as HTMLElement).innerText, 200);
+      }
+    }
+
+    let level: number | undefined;
+    if (role === 'heading') {
+      const ariaLevel = Number(el.getAttribute('aria-level'));
+      level = ariaLevel || Number(el.tagName.substring(1)) || undefined;
+    }
+
+    return { states, value, level };
+  };
+
+  const isHidden = (el: Element): boolean => {
+    if (el.getAttribute('aria-hidden') === 'true' || (el as HTMLElement).hidden) return true;
+    const style = window.getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const walk = (root: Element | ShadowRoot): SnapshotNode[] => {
+    const nodes: SnapshotNode[] = [];
+
+    for (const el of Array.from(root.children)) {
+      if (truncated) break;
+
+      const tag = el.tagName.toLowerCase();
+      if (['script', 'style', 'noscript', 'template', 'head', 'iframe'].includes(tag) || isHidden(el)) {
+        continue;
+      }
+
+      const explicitRole = el.getAttribute('role')?.split(/\s+/)[0] || null;
+      const role = explicitRole && !['presentation', 'none', 'generic'].includes(explicitRole)
+        ? explicitRole
+        : explicitRole ? null : implicitRole(el);
+
+      const childRoots: Array<Element | ShadowRoot> = [el];
+      if (el.shadowRoot) childRoots.push(el.shadowRoot);
+
+      // Option lists of native selects are represented by the select's value
+      const children = tag === 'select'
+        ? []
+        : childRoots.flatMap((childRoot) => walk(childRoot));
+
+      const keep = role !== null && (
+        INTERACTIVE_ROLES.has(role) ||
+        LANDMARK_ROLES.has(role) ||
+        role === 'heading' ||
+        role === 'img' ||
+        explicitRole !== null
+      );
+
+      if (!keep) {
+        nodes.push(...children);
+        continue;
+      }
+
+      if (nodeCount >= maxNodes) {
+        // Keep the descendants built so far - they are counted and their refs are on the DOM
+        truncated = true;
+        nodes.push(...children);
+        break;
+      }
+      nodeCount++;
+
+      const { states, value, level } = statesOf(el, role!);
+      const node: SnapshotNode = {
+        role: role!,
+        name: accessibleName(el, role!),
+        states,
+        children,
+        ...(value !== undefined && { value }),
+        ...(level !== undefined && { level }),
+      };
+
+      if (INTERACTIVE_ROLES.has(role!)) {
+        node.ref = `e${nextRef++}`;
+        el.setAttribute(refAttribute, node.ref);
+      }
+
+      nodes.push(node);
+    }
+
+    return nodes;
+  };
+
+  const nodes = document.body ? walk(document.body) : [];
+  return { nodes, truncated, nextRef };
+}
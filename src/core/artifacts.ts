@@ -0,0 +1,46 @@
+/**
+ * Artifacts - Managed directory for files produced by browser sessions
+ *
+ * Session artifacts (HAR recordings, traces, videos, ...) live in one directory next to the
+ * screenshots (config.artifactsDir, default ./artifacts), one subdirectory
+ * per kind. Callers pass file names relative to that subdirectory; paths
+ * that escape it are rejected.
+ */
+
+import * as path from 'path';
+import { config } from './config';
+import { resolveAbsolute, resolveWithin } from '../utils/fs';
+
+export type ArtifactKind = 'har' | 'trace' | 'video';
+
+/**
+ * Files a session produced (or will produce when it closes)
+ */
+export interface SessionArtifacts {
+  /** HAR recordings (written when the browser context closes) */
+  har: string[];
+  /** Playwright traces (open with `npx playwright show-trace <zip>`) */
+  trace: string[];
+  /** Screen recordings, one per tab (finalized when the browser context closes) */
+  video: string[];
+}
+
+/**
+ * Absolute directory of an artifact kind (e.g. ./artifacts/har)
+ */
+export function artifactDir(kind: ArtifactKind): string {
+  return path.join(resolveAbsolute(config.artifactsDir), kind);
+}
+
+/**
+ * Resolve an artifact file name inside its kind's directory
+ *
+ * @param kind - Artifact kind
+ * @param fileName - Name relative to the kind's directory
+ * @param extension - Extension appended when the name has none (e.g. ".har")
+ * @throws Error if the path escapes the directory
+ */
+export function resolveArtifactPath(kind: ArtifactKind, fileName: string, extension: string): string {
+  const name = path.extname(fileName) ? fileName : `${fileName}${extension}`;
+  return resolveWithin(artifactDir(kind), name);
+}
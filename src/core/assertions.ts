@@ -0,0 +1,263 @@
+/**
+ * Assertions - Auto-retrying checks modeled on Playwright's web-first assertions
+ *
+ * An assertion reads the current value (text, value, URL, count, ...) and
+ * compares it with the expected one, retrying until it passes or the timeout
+ * expires. Failures are returned as results with expected vs actual values,
+ * not thrown: a failed check is information for the agent, not an error.
+ *
+ * Element assertions are strict like Playwright's: a target matching several
+ * elements fails. A missing element never matches, so the positive assertion
+ * fails and the negated one passes (e.g. not toHaveText on a removed element).
+ */
+
+import { Locator, Page } from 'playwright';
+import { matchesUrlPattern } from '../utils/patterns';
+
+export type AssertionName =
+  | 'toBeVisible'
+  | 'toHaveText'
+  | 'toContainText'
+  | 'toHaveValue'
+  | 'toHaveURL'
+  | 'toHaveTitle'
+  | 'toHaveCount'
+  | 'toBeEnabled';
+
+export const ASSERTION_NAMES: readonly AssertionName[] = [
+  'toBeVisible',
+  'toHaveText',
+  'toContainText',
+  'toHaveValue',
+  'toHaveURL',
+  'toHaveTitle',
+  'toHaveCount',
+  'toBeEnabled',
+];
+
+/** Assertions on the page - all others need an element target */
+export const PAGE_ASSERTIONS: readonly AssertionName[] = ['toHaveURL', 'toHaveTitle'];
+
+/** Assertions without an expected value */
+export const STATE_ASSERTIONS: readonly AssertionName[] = ['toBeVisible', 'toBeEnabled'];
+
+export type ExpectedValue = string | number | RegExp;
+
+export interface AssertionSpec {
+  assertion: AssertionName;
+  /** Expected value: string or RegExp for text/value/URL/title (URL strings are globs), number for count */
+  expected?: ExpectedValue;
+  /** Negate the assertion (e.g. not toBeVisible) */
+  not?: boolean;
+}
+
+export interface AssertionResult {
+  assertion: AssertionName;
+  not: boolean;
+  passed: boolean;
+  /** Target description (element assertions) */
+  target?: string;
+  expected: string;
+  actual: string;
+  message: string;
+  elapsedMs: number;
+}
+
+interface Observation {
+  actual: string;
+  /** Whether the actual value matches, null if there is nothing to compare (several elements, unreadable) */
+  matches: boolean | null;
+}
+
+// Delays between retries (the last one repeats) - same cadence as Playwright's expect
+const RETRY_INTERVALS_MS = [100, 250, 500, 1000];
+
+/**
+ * Run an assertion, retrying until it passes or the timeout expires
+ *
+ * @param page - Page for URL/title assertions
+ * @param locator - Element for element assertions
+ * @param spec - Assertion, expected value and negation
+ * @param timeout - Timeout in ms
+ * @param targetDescription - Element description for the result
+ * @throws Error if the spec is invalid (missing target or expected value)
+ */
+export async function runAssertion(
+  page: Page,
+  locator: Locator | undefined,
+  spec: AssertionSpec,
+  timeout: number,
+  targetDescription?: string
+): Promise<AssertionResult> {
+  validateAssertion(spec, locator !== undefined);
+
+  const negate = spec.not ?? false;
+  const startTime = Date.now();
+  const deadline = startTime + timeout;
+  let attempt = 0;
+  let observation: Observation;
+
+  for (;;) {
+    observation = await observe(page, locator, spec);
+
+    const passed = observation.matches !== null && observation.matches !== negate;
+    if (passed || Date.now() >= deadline) {
+      break;
+    }
+
+    const delay = RETRY_INTERVALS_MS[Math.min(attempt++, RETRY_INTERVALS_MS.length - 1)];
+    await new Promise((resolve) => setTimeout(resolve, Math.min(delay, Math.max(0, deadline - Date.now()))));
+  }
+
+  const passed = observation.matches !== null && observation.matches !== negate;
+  const name = `${negate ? 'not ' : ''}${spec.assertion}`;
+  const expected = describeExpected(spec);
+  const subject = targetDescription ?? (spec.assertion === 'toHaveURL' ? 'page URL' : 'page title');
+  const elapsedMs = Date.now() - startTime;
+
+  return {
+    assertion: spec.assertion,
+    not: negate,
+    passed,
+    ...(targetDescription && { target: targetDescription }),
+    expected,
+    actual: observation.actual,
+    message: passed
+      ? `PASS ${name}: ${subject}`
+      : `FAIL ${name}: ${subject} - expected ${negate ? 'not ' : ''}${expected}, actual ${observation.actual} (after ${elapsedMs}ms)`,
+    elapsedMs,
+  };
+}
+
+/**
+ * Validate target and expected value of an assertion spec
+ *
+ * @throws Error describing what is missing or of the wrong type
+ */
+export function validateAssertion(spec: AssertionSpec, hasTarget: boolean): void {
+  const { assertion, expected } = spec;
+
+  if (!ASSERTION_NAMES.includes(assertion)) {
+    throw new Error(`Unknown assertion "${assertion}". Use one of: ${ASSERTION_NAMES.join(', ')}`);
+  }
+
+  if (!PAGE_ASSERTIONS.includes(assertion) && !hasTarget) {
+    throw new Error(`${assertion} needs an element target`);
+  }
+
+  if (STATE_ASSERTIONS.includes(assertion)) {
+    return;
+  }
+
+  if (expected === undefined) {
+    throw new Error(`${assertion} needs an expected value`);
+  }
+
+  if (assertion === 'toHaveCount') {
+    if (typeof expected !== 'number' || !Number.isInteger(expected) || expected < 0) {
+      throw new Error('toHaveCount expects a non-negative integer');
+    }
+  } else if (typeof expected === 'number') {
+    throw new Error(`${assertion} expects a string or regex`);
+  }
+}
+
+/**
+ * Read the current value and compare it once
+ */
+async function observe(page: Page, locator: Locator | undefined, spec: AssertionSpec): Promise<Observation> {
+  const { assertion, expected } = spec;
+
+  if (assertion === 'toHaveURL') {
+    const url = page.url();
+    return { actual: url, matches: matchesUrlPattern(url, expected as string | RegExp) };
+  }
+
+  if (assertion === 'toHaveTitle') {
+    const title = await page.title();
+    return { actual: JSON.stringify(title), matches: matchesText(title, expected as string | RegExp, false) };
+  }
+
+  const element = locator!;
+  const count = await element.count();
+
+  if (assertion === 'toHaveCount') {
+    return { actual: String(count), matches: count === expected };
+  }
+
+  if (count === 0) {
+    return { actual: 'not found', matches: false };
+  }
+
+  if (count > 1) {
+    return { actual: `${count} elements match (target must be unique)`, matches: null };
+  }
+
+  // The element can disappear between count() and the read - observe again on the next retry
+  try {
+    switch (assertion) {
+      case 'toBeVisible': {
+        const visible = await element.isVisible();
+        return { actual: visible ? 'visible' : 'hidden', matches: visible };
+      }
+      case 'toBeEnabled': {
+        const enabled = await element.isEnabled({ timeout: 1000 });
+        return { actual: enabled ? 'enabled' : 'disabled', matches: enabled };
+      }
+      case 'toHaveText':
+      case 'toContainText': {
+        const text = await element.innerText({ timeout: 1000 });
+        return {
+          actual: JSON.stringify(normalizeWhitespace(text)),
+          matches: matchesText(text, expected as string | RegExp, assertion === 'toContainText'),
+        };
+      }
+      case 'toHaveValue': {
+        const value = await element.inputValue({ timeout: 1000 });
+        return { actual: JSON.stringify(value), matches: matchesValue(value, expected as string | RegExp) };
+      }
+    }
+  } catch (error: any) {
+    return { actual: `unreadable (${error.message.split('\n')[0]})`, matches: null };
+  }
+
+  return { actual: 'unsupported assertion', matches: null };
+}
+
+/**
+ * Compare text like Playwright: whitespace-normalized; substring or full match for strings
+ */
+function matchesText(text: string, expected: string | RegExp, contains: boolean): boolean {
+  const normalized = normalizeWhitespace(text);
+
+  if (expected instanceof RegExp) {
+    return expected.test(normalized);
+  }
+
+  const wanted = normalizeWhitespace(expected);
+  return contains ? normalized.includes(wanted) : normalized === wanted;
+}
+
+/**
+ * Compare input values exactly (whitespace matters in inputs)
+ */
+function matchesValue(value: string, expected: string | RegExp): boolean {
+  return expected instanceof RegExp ? expected.test(value) : value === expected;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function describeExpected(spec: AssertionSpec): string {
+  switch (spec.assertion) {
+    case 'toBeVisible':
+      return 'visible';
+    case 'toBeEnabled':
+      return 'enabled';
+    case 'toHaveCount':
+      return String(spec.expected);
+    default:
+      return spec.expected instanceof RegExp ? spec.expected.toString() : JSON.stringify(spec.expected);
+  }
+}
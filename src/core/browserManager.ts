@@ -1,50 +1,293 @@
 /**
- * BrowserManager - Singleton wrapper around Playwright chromium browser
+ * BrowserManager - Singleton wrapper around a Playwright browser (chromium, firefox or webkit)
  * 
- * Manages the lifecycle of a browser instance, context, and page.
+ * Manages the lifecycle of a browser instance, context, and pages.
+ * Pages (tabs) are tracked by PageManager; operations act on the active tab.
  * All methods follow actionability rules (no manual waits, locator-based).
  */
 
-import { chromium, Browser, BrowserContext, Page, Locator } from 'playwright';
+import {
+  chromium,
+  firefox,
+  webkit,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  Cookie,
+  Page,
+  Locator,
+  Response,
+} from 'playwright';
 import * as path from 'path';
-import { config } from './config';
-import { ensureDir, resolveAbsolute, cleanDirectory } from '../utils/fs';
+import { config, BrowserName, BROWSER_NAMES, TraceMode, TRACE_MODES } from './config';
+import { LocatorRoot, LocatorSpec, resolveLocator, describeLocator } from './locatorSpec';
+import { captureSnapshot, formatSnapshot, PageSnapshot, SnapshotRef, REF_ATTRIBUTE } from './ariaSnapshot';
+import { ensureDir, resolveAbsolute, resolveWithin, cleanDirectory, pathExists } from '../utils/fs';
 import { logger } from '../utils/logger';
+import { PageManager, TabInfo } from './pageManager';
+import { RouteManager, RouteInfo, RouteSpec } from './routeManager';
+import { NetworkLog, NetworkFilter, NetworkLogResult, ResponseBody } from './networkLog';
+import { ConsoleLog, ConsoleEntry, ConsoleFilter, ConsoleLogResult, formatConsoleEntry } from './consoleLog';
+import { DialogHandler, DialogHistory, DialogPolicy, defaultDialogPolicy, validateDialogPolicy } from './dialogHandler';
+import { DownloadInfo, DownloadManager } from './downloadManager';
+import { FrameInfo, FrameTarget, describeFrame, getFrameTree, resolveFrameRoot } from './frames';
+import { TraceRecorder } from './traceRecorder';
+import { VideoRecorder, VideoRecordOptions, resolveVideoRecording } from './videoRecorder';
+import {
+  DEFAULT_MASK_COLOR,
+  FittedImage,
+  ImageLimits,
+  ScreenshotClip,
+  ScreenshotType,
+  fitScreenshot,
+  resolveScreenshotType,
+  sensitiveMaskSelectors,
+  validateScreenshotClip,
+  validateScreenshotQuality,
+} from './screenshots';
+import {
+  EmulationOptions,
+  EmulationSettings,
+  buildContextOptions,
+  readEmulationSettings,
+} from './emulation';
+import {
+  CookieFilter,
+  CookieInput,
+  WebStorageArea,
+  matchesCookieFilter,
+  readWebStorage,
+  writeWebStorage,
+  clearWebStorage,
+} from './storage';
+import { ElementState, NavigationWaitUntil, WaitLoadState, WaitResult, waitForConditions } from './waitConditions';
+import { UrlPattern, describeUrlPattern, parseUrlPattern } from '../utils/patterns';
+import { SessionArtifacts, artifactDir, resolveArtifactPath } from './artifacts';
+import { AssertionResult, AssertionSpec, runAssertion, validateAssertion } from './assertions';
+import {
+  VerificationCheck,
+  VerificationEntry,
+  VerificationReport,
+  VerificationSummary,
+  assertionForCheck,
+} from './verificationReport';
 
-export interface LaunchOptions {
+export interface LaunchOptions extends EmulationOptions {
+  browserType?: BrowserName;
   headless?: boolean;
   slowMoMs?: number;
+  /** Storage state file (cookies + localStorage) relative to config.authStateDir */
+  storageState?: string;
+  /** Record the session's traffic to a HAR file (default: config.recordHar) */
+  recordHar?: HarRecordOptions;
+  /** Answer requests from a recorded HAR file (default: config.replayHar) */
+  replayHar?: HarReplayOptions;
+  /** Response to alert/confirm/prompt dialogs (default: config.dialogAction / dialogPromptText) */
+  dialogPolicy?: DialogPolicy;
+  /** Trace the session: off, on, or retain-on-failure (default: config.traceMode) */
+  traceMode?: TraceMode;
+  /** Record a video of every tab: true, false or frame size options (default: config.recordVideo) */
+  recordVideo?: boolean | VideoRecordOptions;
 }
 
-export interface ClickOptions {
+export interface HarRecordOptions {
+  /** File name in <artifactsDir>/har (".har" appended if missing) */
+  path: string;
+  /** Only record requests matching this URL glob or RegExp */
+  urlFilter?: UrlPattern;
+}
+
+export interface HarReplayOptions {
+  /** File name in <artifactsDir>/har (".har" appended if missing) */
+  path: string;
+  /** Only serve requests matching this URL glob or RegExp from the HAR */
+  urlFilter?: UrlPattern;
+  /** Requests missing from the HAR: abort them (offline, default) or send them to the network */
+  notFound?: 'abort' | 'fallback';
+}
+
+export interface ElementInfo {
+  selector: string;
+  found: boolean;
+  tag?: string;
+  text?: string;
+  boundingBox?: { x: number; y: number; width: number; height: number };
+}
+
+export interface SnapshotResult {
+  url: string;
+  title: string;
+  tabId: string;
+  /** Indented outline of roles, names, states and refs */
+  text: string;
+  refCount: number;
+  truncated: boolean;
+}
+
+export interface FrameOptions {
+  /** Search inside this iframe instead of the top page */
+  frame?: FrameTarget;
+}
+
+export interface ClickOptions extends FrameOptions {
+  timeoutMs?: number;
+}
+
+export interface PressOptions {
+  timeoutMs?: number;
+  /** Element to focus before pressing (default: currently focused element) */
+  target?: LocatorSpec;
+}
+
+/**
+ * Option of a native <select> to choose: by value attribute, visible label or 0-based index
+ */
+export type SelectOptionInput = { value: string } | { label: string } | { index: number };
+
+/**
+ * Conditions for waitFor() - all given conditions must be met
+ */
+export interface WaitForOptions {
+  /** Element to wait for */
+  target?: LocatorSpec;
+  /** Frame the target is in (default: top page) */
+  frame?: FrameTarget;
+  /** State the target must reach (default: visible) */
+  state?: ElementState;
+  /** Text that must become visible on the page */
+  text?: string;
+  /** URL glob or RegExp the page must reach */
+  url?: UrlPattern;
+  /** Load state the page must reach */
+  loadState?: WaitLoadState;
+  /** URL glob or RegExp of a response to wait for (received after the call) */
+  response?: UrlPattern;
+  timeoutMs?: number;
+}
+
+/**
+ * Assertion for expect() - target is required except for toHaveURL/toHaveTitle
+ */
+export interface ExpectOptions extends AssertionSpec {
+  target?: LocatorSpec;
+  timeoutMs?: number;
+}
+
+/**
+ * Soft check for verify() - failures are recorded, not thrown
+ */
+export interface VerifyOptions {
+  check: VerificationCheck;
+  /** Element (text, visible and value checks) */
+  target?: LocatorSpec;
+  /** Expected text/value, or URL glob; RegExp allowed */
+  expected?: string | RegExp;
+  /** Text checks: whole text must match (default: substring) */
+  exact?: boolean;
+  /** Negate the check (e.g. element NOT visible) */
+  not?: boolean;
+  timeoutMs?: number;
+}
+
+export interface NavigationOptions {
+  /** When the navigation counts as done (default: domcontentloaded) */
+  waitUntil?: NavigationWaitUntil;
+}
+
+export interface NavigationResult {
+  /** URL after the navigation */
+  url: string;
+  title: string;
+  /** HTTP status of the main document (missing for same-document navigations or no history entry) */
+  status?: number;
+  statusText?: string;
+}
+
+export interface WaitForDownloadOptions {
+  /** Element to click to start the download (default: wait for a download started by earlier actions) */
+  trigger?: LocatorSpec;
   timeoutMs?: number;
 }
 
-export interface TypeOptions {
+export interface TypeOptions extends FrameOptions {
   timeoutMs?: number;
   clear?: boolean;
 }
 
-export interface ScreenshotOptions {
+export interface ScreenshotOptions extends FrameOptions {
   path?: string;
   fullPage?: boolean;
   returnBase64?: boolean;
+  /** Capture only this element (searched in `frame` if given) */
+  element?: LocatorSpec;
+  /** How long to wait for the element (default: config.defaultTimeoutMs) */
+  timeoutMs?: number;
+  /** Capture only this region (page coordinates with fullPage, otherwise viewport coordinates) */
+  clip?: ScreenshotClip;
+  /** png or jpeg (default: from the path extension, else png) */
+  type?: ScreenshotType;
+  /** JPEG quality 0-100 */
+  quality?: number;
+  /** Cover password fields and config.screenshotMaskSelectors (default: false) */
+  maskSensitive?: boolean;
+  /** More elements to cover (in the top page) */
+  mask?: LocatorSpec[];
+  /** Overlay color of masked elements (default: #000000) */
+  maskColor?: string;
 }
 
+// Console errors logged with a failed step
+const RECENT_CONSOLE_ERRORS = 5;
+
 /**
  * BrowserManager class - manages Playwright browser lifecycle
  */
 class BrowserManager {
   private browser: Browser | null = null;
+  private browserName: BrowserName | null = null;
   private context: BrowserContext | null = null;
-  private page: Page | null = null;
+  private pageManager = new PageManager();
+  private routeManager = new RouteManager();
+  private networkLog = new NetworkLog(config.networkLogSize);
+  private consoleLog = new ConsoleLog(config.consoleLogSize, (page) => this.pageManager.findId(page));
+  private dialogHandler = new DialogHandler(defaultDialogPolicy(), (page) => this.pageManager.findId(page));
+  private downloadManager = new DownloadManager((page) => this.pageManager.findId(page));
+  private traceRecorder: TraceRecorder;
+  private videoRecorder: VideoRecorder;
+  private emulationOptions: EmulationOptions = {};
+  private contextOptions: BrowserContextOptions = {};
+  private emulation: EmulationSettings | null = null;
+  private harRecording: HarRecordOptions | null = null;
+  private harReplay: HarReplayOptions | null = null;
+  private harFiles: string[] = [];
+  private verificationReport = new VerificationReport();
+  private snapshotRefs = new WeakMap<Page, Map<string, SnapshotRef>>();
+  private nextSnapshotRef = new WeakMap<Page, number>();
   private isShuttingDown = false;
 
+  /**
+   * @param sessionId - Session this manager belongs to (see SessionManager)
+   */
+  constructor(private readonly sessionId: string = 'default') {
+    this.traceRecorder = new TraceRecorder(sessionId);
+    this.videoRecorder = new VideoRecorder(sessionId, (page) => this.pageManager.findId(page));
+  }
+
+  /**
+   * Active page - all page-level operations act on it
+   */
+  private get page(): Page | null {
+    return this.pageManager.getActivePage();
+  }
+
   /**
    * Launch a new browser instance
    * 
-   * @param options - Launch options (headless, slowMoMs)
-   * @throws Error if browser is already launched
+   * @param options - Launch options (browserType, headless, slowMoMs, device/environment emulation,
+   *   storageState)
+   * @throws Error if browser is already launched, the browser type is unknown or not installed,
+   *   the device preset is unknown, or the storage state file does not exist
    */
   async launch(options?: LaunchOptions): Promise<void> {
     await this.runStep('launch', async () => {
@@ -52,30 +295,234 @@ class BrowserManager {
         throw new Error('Browser is already launched. Call quit() before launching again.');
       }
 
+      const browserName = options?.browserType ?? config.browserType;
       const headless = options?.headless ?? config.headless;
       const slowMo = options?.slowMoMs ?? config.slowMoMs;
 
-      logger.debug(`Launch options: headless=${headless}, slowMo=${slowMo}ms`);
+      if (!BROWSER_NAMES.includes(browserName)) {
+        throw new Error(
+          `Unknown browser type "${browserName}". Expected one of: ${BROWSER_NAMES.join(', ')}`
+        );
+      }
+
+      logger.debug(`Launch options: browser=${browserName}, headless=${headless}, slowMo=${slowMo}ms`);
 
       // Ensure screenshot directory exists
       await ensureDir(resolveAbsolute(config.screenshotDir));
 
+      // Resolve emulation and storage state before launching so bad options fail fast
+      const emulationOptions: EmulationOptions = options ?? {};
+      const contextOptions = buildContextOptions(emulationOptions, browserName);
+      const storageStatePath = options?.storageState
+        ? await this.resolveExistingStorageState(options.storageState)
+        : undefined;
+      const dialogPolicy = options?.dialogPolicy ?? defaultDialogPolicy();
+      validateDialogPolicy(dialogPolicy);
+      const traceMode = options?.traceMode ?? config.traceMode;
+      if (!TRACE_MODES.includes(traceMode)) {
+        throw new Error(`Unknown trace mode "${traceMode}". Expected one of: ${TRACE_MODES.join(', ')}`);
+      }
+      const videoRecording = resolveVideoRecording(options?.recordVideo ?? config.recordVideo);
+      const harRecording = this.resolveHarRecording(options?.recordHar);
+      const harReplay = await this.resolveHarReplay(options?.replayHar);
+
+      if (harRecording) {
+        await ensureDir(path.dirname(harRecording.path));
+      }
+
       // Launch browser
-      this.browser = await chromium.launch({
-        headless,
-        slowMo,
-      });
+      this.browser = await this.launchBrowser(browserName, { headless, slowMo });
+      this.browserName = browserName;
+
+      this.emulationOptions = emulationOptions;
+      this.contextOptions = contextOptions;
+      this.harRecording = harRecording;
+      this.harReplay = harReplay;
+      this.harFiles = [];
+      this.networkLog.clear();
+      this.consoleLog.clear();
+      this.dialogHandler.reset(dialogPolicy);
+      this.downloadManager.clear();
+      this.traceRecorder.reset(traceMode);
+      this.videoRecorder.reset(videoRecording);
+
+      try {
+        await this.createContext(storageStatePath);
+      } catch (error) {
+        // No page yet, so quit() would refuse - close the browser here or it is orphaned
+        await this.discardBrowser();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Save the context storage state (cookies + localStorage) to the auth-state directory
+   * 
+   * @param filePath - File name relative to config.authStateDir (".json" is appended if missing)
+   * @returns Absolute path of the saved file
+   * @throws Error if browser is not launched or the path escapes the auth-state directory
+   */
+  async saveStorageState(filePath: string): Promise<string> {
+    this.ensureLaunched('saveStorageState');
+
+    const statePath = this.resolveStorageStatePath(filePath);
+
+    return await this.runStep(`save storage state to ${statePath}`, async () => {
+      await ensureDir(path.dirname(statePath));
+      await this.context!.storageState({ path: statePath });
+      return statePath;
+    });
+  }
+
+  /**
+   * Restore a saved storage state into the running session
+   * 
+   * Storage state can only be applied when a context is created, so the context is
+   * recreated: open tabs are closed and a single new tab is opened at the URL the
+   * active tab was showing.
+   * 
+   * @param filePath - File name relative to config.authStateDir (".json" is appended if missing)
+   * @returns Absolute path of the loaded file
+   * @throws Error if browser is not launched or the file does not exist
+   */
+  async loadStorageState(filePath: string): Promise<string> {
+    this.ensureLaunched('loadStorageState');
+
+    const statePath = await this.resolveExistingStorageState(filePath);
+
+    return await this.runStep(`load storage state from ${statePath}`, async () => {
+      const previousUrl = this.page!.url();
+
+      await this.closeContext();
+      await this.createContext(statePath);
+
+      if (/^https?:/.test(previousUrl)) {
+        await this.page!.goto(previousUrl, { waitUntil: 'domcontentloaded' });
+      }
+
+      return statePath;
+    });
+  }
+
+  /**
+   * Get cookies of the browser context
+   * 
+   * @param filter - Optional domain (subdomains included) and/or name filter
+   * @returns Matching cookies
+   * @throws Error if browser is not launched
+   */
+  async getCookies(filter: CookieFilter = {}): Promise<Cookie[]> {
+    this.ensureLaunched('getCookies');
+
+    return await this.runStep('get cookies', async () => {
+      const cookies = await this.context!.cookies();
+      return cookies.filter((cookie) => matchesCookieFilter(cookie, filter));
+    });
+  }
+
+  /**
+   * Add or overwrite cookies in the browser context
+   * Cookies without url/domain apply to the active tab's URL.
+   * 
+   * @param cookies - Cookies to set
+   * @throws Error if browser is not launched or a cookie has no target URL/domain
+   */
+  async setCookies(cookies: CookieInput[]): Promise<void> {
+    this.ensureLaunched('setCookies');
+
+    await this.runStep(`set ${cookies.length} cookie(s)`, async () => {
+      const currentUrl = this.page!.url();
+
+      const resolved = cookies.map((cookie) => {
+        if (cookie.url || cookie.domain) {
+          // Playwright requires a path together with domain
+          return cookie.domain && !cookie.url ? { path: '/', ...cookie } : cookie;
+        }
+
+        if (!/^https?:/.test(currentUrl)) {
+          throw new Error(
+            `Cookie "${cookie.name}" needs "url" or "domain" (active tab is at ${currentUrl})`
+          );
+        }
 
-      // Create context with viewport
-      this.context = await this.browser.newContext({
-        viewport: { width: 1280, height: 720 },
+        return { ...cookie, url: currentUrl };
       });
 
-      // Create page
-      this.page = await this.context.newPage();
+      await this.context!.addCookies(resolved);
+    });
+  }
+
+  /**
+   * Remove cookies from the browser context
+   * 
+   * @param filter - Optional domain (subdomains included) and/or name filter (default: all cookies)
+   * @returns Number of cookies removed
+   * @throws Error if browser is not launched
+   */
+  async clearCookies(filter: CookieFilter = {}): Promise<number> {
+    this.ensureLaunched('clearCookies');
+
+    return await this.runStep('clear cookies', async () => {
+      const matching = (await this.context!.cookies()).filter((cookie) =>
+        matchesCookieFilter(cookie, filter)
+      );
+
+      for (const cookie of matching) {
+        await this.context!.clearCookies({
+          name: cookie.name,
+          domain: cookie.domain,
+          path: cookie.path,
+        });
+      }
+
+      return matching.length;
+    });
+  }
+
+  /**
+   * Read localStorage or sessionStorage of the active tab's origin
+   * 
+   * @param area - 'local' or 'session'
+   * @returns All entries of the storage area
+   * @throws Error if browser is not launched or the page has no storage (e.g. about:blank)
+   */
+  async getWebStorage(area: WebStorageArea): Promise<Record<string, string>> {
+    this.ensureLaunched('getWebStorage');
+
+    return await this.runStep(`get ${area}Storage`, async () => {
+      return await readWebStorage(this.page!, area);
+    });
+  }
+
+  /**
+   * Write entries to localStorage or sessionStorage of the active tab's origin
+   * 
+   * @param area - 'local' or 'session'
+   * @param entries - Key/value pairs to set
+   * @throws Error if browser is not launched or the page has no storage
+   */
+  async setWebStorage(area: WebStorageArea, entries: Record<string, string>): Promise<void> {
+    this.ensureLaunched('setWebStorage');
+
+    await this.runStep(`set ${area}Storage (${Object.keys(entries).length} key(s))`, async () => {
+      await writeWebStorage(this.page!, area, entries);
+    });
+  }
+
+  /**
+   * Remove entries from localStorage or sessionStorage of the active tab's origin
+   * 
+   * @param area - 'local' or 'session'
+   * @param keys - Keys to remove (default: all)
+   * @returns Number of entries removed
+   * @throws Error if browser is not launched or the page has no storage
+   */
+  async clearWebStorage(area: WebStorageArea, keys?: string[]): Promise<number> {
+    this.ensureLaunched('clearWebStorage');
 
-      // Set default timeout
-      this.page.setDefaultTimeout(config.defaultTimeoutMs);
+    return await this.runStep(`clear ${area}Storage`, async () => {
+      return await clearWebStorage(this.page!, area, keys);
     });
   }
 
@@ -83,13 +530,64 @@ class BrowserManager {
    * Navigate to a URL
    * 
    * @param url - URL to navigate to
-   * @throws Error if browser is not launched
+   * @param options - waitUntil (default: domcontentloaded)
+   * @returns URL, title and HTTP status of the main document
+   * @throws Error if browser is not launched or the navigation fails
    */
-  async navigate(url: string): Promise<void> {
+  async navigate(url: string, options?: NavigationOptions): Promise<NavigationResult> {
     this.ensureLaunched('navigate');
     
-    await this.runStep(`navigate to ${url}`, async () => {
-      await this.page!.goto(url, { waitUntil: 'domcontentloaded' });
+    return await this.runStep(`navigate to ${url}`, async () => {
+      const response = await this.page!.goto(url, { waitUntil: options?.waitUntil ?? 'domcontentloaded' });
+      return await this.buildNavigationResult(response);
+    });
+  }
+
+  /**
+   * Go back one entry in the active tab's history
+   * 
+   * @param options - waitUntil (default: domcontentloaded)
+   * @returns URL, title and HTTP status after going back (unchanged page if there is no previous entry)
+   * @throws Error if browser is not launched or the navigation fails
+   */
+  async goBack(options?: NavigationOptions): Promise<NavigationResult> {
+    this.ensureLaunched('goBack');
+
+    return await this.runStep('go back', async () => {
+      const response = await this.page!.goBack({ waitUntil: options?.waitUntil ?? 'domcontentloaded' });
+      return await this.buildNavigationResult(response);
+    });
+  }
+
+  /**
+   * Go forward one entry in the active tab's history
+   * 
+   * @param options - waitUntil (default: domcontentloaded)
+   * @returns URL, title and HTTP status after going forward (unchanged page if there is no next entry)
+   * @throws Error if browser is not launched or the navigation fails
+   */
+  async goForward(options?: NavigationOptions): Promise<NavigationResult> {
+    this.ensureLaunched('goForward');
+
+    return await this.runStep('go forward', async () => {
+      const response = await this.page!.goForward({ waitUntil: options?.waitUntil ?? 'domcontentloaded' });
+      return await this.buildNavigationResult(response);
+    });
+  }
+
+  /**
+   * Reload the active tab
+   * 
+   * @param options - waitUntil (default: domcontentloaded)
+   * @returns URL, title and HTTP status after the reload
+   * @throws Error if browser is not launched or the navigation fails
+   */
+  async reload(options?: NavigationOptions): Promise<NavigationResult> {
+    this.ensureLaunched('reload');
+
+    return await this.runStep('reload', async () => {
+      const response = await this.page!.reload({ waitUntil: options?.waitUntil ?? 'domcontentloaded' });
+      return await this.buildNavigationResult(response);
     });
   }
 
@@ -116,19 +614,20 @@ class BrowserManager {
   }
 
   /**
-   * Wait for a selector to be visible
+   * Wait for an element to be visible
    * 
-   * @param selector - CSS selector to wait for
-   * @param options - Wait options (timeoutMs)
-   * @throws Error if element is not visible within timeout
+   * @param target - Selector or locator spec to wait for
+   * @param options - Wait options (timeoutMs, frame)
+   * @throws Error if element is not visible within timeout or the frame is not found
    */
-  async waitForSelector(selector: string, options?: { timeoutMs?: number }): Promise<void> {
+  async waitForSelector(target: LocatorSpec, options?: { timeoutMs?: number } & FrameOptions): Promise<void> {
     this.ensureLaunched('waitForSelector');
     
     const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
     
-    await this.runStep(`wait for selector "${selector}"`, async () => {
-      await this.page!.locator(selector).first().waitFor({
+    await this.runStep(`wait for ${this.describeTarget(target, options?.frame)}`, async () => {
+      const locator = await this.resolveTarget(target, options?.frame);
+      await locator.first().waitFor({
         state: 'visible',
         timeout,
       });
@@ -136,39 +635,226 @@ class BrowserManager {
   }
 
   /**
-   * Find an element using a selector
+   * Wait until all given conditions are met
+   * Element hidden/detached, text visible, URL match, load state and network
+   * responses can be combined; they share one timeout.
+   * 
+   * @param options - Conditions (at least one) and timeoutMs
+   * @returns Met conditions, current URL, matching response and elapsed time
+   * @throws Error listing the pending conditions on timeout
+   */
+  async waitFor(options: WaitForOptions): Promise<WaitResult> {
+    this.ensureLaunched('waitFor');
+
+    const { target, frame, state, text, url, loadState, response } = options;
+    const timeout = options.timeoutMs ?? config.defaultTimeoutMs;
+
+    const parts = [
+      target && `${this.describeTarget(target, frame)} ${state ?? 'visible'}`,
+      text !== undefined && `text "${text}"`,
+      url !== undefined && `URL ${describeUrlPattern(url)}`,
+      loadState && `load state ${loadState}`,
+      response !== undefined && `response ${describeUrlPattern(response)}`,
+    ].filter(Boolean);
+
+    if (parts.length === 0) {
+      throw new Error('waitFor() needs at least one condition (target, text, url, loadState or response)');
+    }
+
+    return await this.runStep(`wait for ${parts.join(', ')}`, async () => {
+      let element: Locator | undefined;
+      if (target) {
+        // A removed ref element is what hidden/detached waits for - don't treat it as stale
+        element = state === 'hidden' || state === 'detached'
+          ? this.find(target, { frame })
+          : await this.resolveTarget(target, frame);
+      }
+
+      return await waitForConditions(
+        this.page!,
+        {
+          element,
+          elementDescription: target && this.describeTarget(target, frame),
+          state,
+          text,
+          url,
+          loadState,
+          response,
+        },
+        timeout
+      );
+    });
+  }
+
+  /**
+   * Run an auto-retrying assertion (toBeVisible, toHaveText, toHaveURL, ...)
+   * A failed assertion is returned as a result, not thrown.
+   * 
+   * @param options - Assertion, expected value, optional negation, target and timeoutMs
+   * @returns Pass/fail with expected and actual values
+   * @throws Error if browser is not launched, the spec is invalid or a ref is unknown/stale
+   */
+  async expect(options: ExpectOptions): Promise<AssertionResult> {
+    this.ensureLaunched('expect');
+
+    const { target, timeoutMs, ...spec } = options;
+    const timeout = timeoutMs ?? config.defaultTimeoutMs;
+    const description = target ? describeLocator(target) : undefined;
+
+    validateAssertion(spec, target !== undefined);
+
+    return await this.runStep(`expect ${description ? `${description} ` : ''}${spec.not ? 'not ' : ''}${spec.assertion}`, async () => {
+      // find() instead of resolveTarget(): a removed element is a result ("not found"), not an error
+      const locator = target ? this.find(target) : undefined;
+
+      const result = await runAssertion(this.page!, locator, spec, timeout, description);
+      logger.info(result.message);
+
+      return result;
+    });
+  }
+
+  /**
+   * Run a soft verification check (text, visible, url, value)
+   * The result is recorded in the session's verification report; failures
+   * get a screenshot and do not throw, so the run can continue.
+   * 
+   * @param options - Check kind, target, expected value, exact/not, timeoutMs
+   * @returns The recorded report entry
+   * @throws Error if browser is not launched or the check is invalid (missing target/expected)
+   */
+  async verify(options: VerifyOptions): Promise<VerificationEntry> {
+    this.ensureLaunched('verify');
+
+    const { check, target, expected, exact, not, timeoutMs } = options;
+
+    const result = await this.expect({
+      assertion: assertionForCheck(check, exact),
+      expected,
+      not,
+      target,
+      timeoutMs,
+    });
+
+    // Check number in the name keeps screenshots of failures within one second apart
+    const checkNumber = this.verificationReport.getSummary().total + 1;
+    const screenshot = result.passed
+      ? null
+      : await this.captureErrorScreenshot(`${checkNumber} ${check} ${result.target ?? ''}`, 'verify');
+
+    const entry = this.verificationReport.add(check, result, this.page!.url(), screenshot);
+    if (!entry.passed) {
+      logger.warn(`Soft check #${entry.index} failed: ${entry.message}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get the results of all soft checks of this session
+   * Available until the session is closed (also after quit()).
+   */
+  getVerificationReport(): VerificationSummary {
+    return this.verificationReport.getSummary();
+  }
+
+  /**
+   * Forget all soft check results (e.g. between scenarios)
+   */
+  clearVerificationReport(): void {
+    this.verificationReport.clear();
+  }
+
+  /**
+   * Find an element using a selector or locator spec
    * Returns a Playwright Locator (does not wait or verify existence)
    * 
-   * @param selector - CSS selector, text, or other locator
+   * @param target - Selector string or locator spec (role, label, testId, ...)
+   * @param options - Frame to search in (default: top page)
    * @returns Playwright Locator
-   * @throws Error if browser is not launched
+   * @throws Error if browser is not launched, a ref is unknown/stale, or a frame name/URL matches no frame
    */
-  find(selector: string): Locator {
+  find(target: LocatorSpec, options?: FrameOptions): Locator {
     this.ensureLaunched('find');
     
-    return this.page!.locator(selector);
+    return resolveLocator(this.locatorRoot(target, options?.frame), target, (ref) => this.resolveRef(ref));
+  }
+
+  /**
+   * Get the frame tree of the active tab (names, URLs and iframe selectors)
+   * 
+   * @throws Error if browser is not launched
+   */
+  async getFrames(): Promise<FrameInfo> {
+    this.ensureLaunched('getFrames');
+
+    return await this.runStep('get frames', async () => {
+      return await getFrameTree(this.page!);
+    });
+  }
+
+  /**
+   * Capture an accessibility snapshot of the active tab
+   * Interactive elements get refs (e1, e2, ...) usable as { ref } targets
+   * until the tab navigates or the next snapshot is taken.
+   * 
+   * @returns Snapshot outline and metadata
+   * @throws Error if browser is not launched
+   */
+  async snapshot(): Promise<SnapshotResult> {
+    this.ensureLaunched('snapshot');
+
+    return await this.runStep('snapshot', async () => {
+      const page = this.page!;
+      const firstRef = this.nextSnapshotRef.get(page) ?? 1;
+
+      if (!this.nextSnapshotRef.has(page)) {
+        // Refs describe one document - drop them when the main frame navigates
+        page.on('framenavigated', (frame) => {
+          if (frame === page.mainFrame()) {
+            this.snapshotRefs.delete(page);
+          }
+        });
+      }
+
+      const snapshot: PageSnapshot = await captureSnapshot(page, firstRef);
+
+      this.snapshotRefs.set(page, snapshot.refs);
+      this.nextSnapshotRef.set(page, snapshot.nextRef);
+
+      return {
+        url: snapshot.url,
+        title: snapshot.title,
+        tabId: this.pageManager.getActivePageId()!,
+        text: formatSnapshot(snapshot.nodes),
+        refCount: snapshot.refs.size,
+        truncated: snapshot.truncated,
+      };
+    });
   }
 
   /**
    * Click on an element
    * Uses Playwright's auto-waiting and actionability checks
    * 
-   * @param selector - Selector for element to click
-   * @param options - Click options (timeoutMs)
-   * @throws Error if browser is not launched or element not found/actionable
+   * @param target - Selector or locator spec (role, label, testId, snapshot ref, ...)
+   * @param options - Click options (timeoutMs, frame)
+   * @throws Error if browser is not launched, ref is stale, frame or element not found/actionable
    */
-  async click(selector: string, options?: ClickOptions): Promise<void> {
+  async click(target: LocatorSpec, options?: ClickOptions): Promise<void> {
     this.ensureLaunched('click');
     
     const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
+    const description = this.describeTarget(target, options?.frame);
     
-    await this.runStep(`click "${selector}"`, async () => {
+    await this.runStep(`click ${description}`, async () => {
+      const locator = await this.resolveTarget(target, options?.frame);
+
       try {
-        const locator = this.page!.locator(selector);
         await locator.click({ timeout });
       } catch (error: any) {
         throw new Error(
-          `Click failed for selector "${selector}" (timeout ${timeout}ms): ${error.message}`,
+          `Click failed for ${description} (timeout ${timeout}ms): ${error.message}`,
           { cause: error }
         );
       }
@@ -179,21 +865,22 @@ class BrowserManager {
    * Type text into an element
    * Uses fill() which is faster and more reliable than type()
    * 
-   * @param selector - Selector for input element
+   * @param target - Selector or locator spec of the input element
    * @param text - Text to type
-   * @param options - Type options (timeoutMs, clear)
-   * @throws Error if browser is not launched or element not found/actionable
+   * @param options - Type options (timeoutMs, clear, frame)
+   * @throws Error if browser is not launched, ref is stale, frame or element not found/actionable
    */
-  async type(selector: string, text: string, options?: TypeOptions): Promise<void> {
+  async type(target: LocatorSpec, text: string, options?: TypeOptions): Promise<void> {
     this.ensureLaunched('type');
     
     const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
     const clear = options?.clear ?? true;
+    const description = this.describeTarget(target, options?.frame);
     
-    await this.runStep(`type into "${selector}"`, async () => {
-      try {
-        const locator = this.page!.locator(selector);
+    await this.runStep(`type into ${description}`, async () => {
+      const locator = await this.resolveTarget(target, options?.frame);
 
+      try {
         if (clear) {
           // Clear existing content
           await locator.clear({ timeout });
@@ -203,7 +890,7 @@ class BrowserManager {
         await locator.fill(text, { timeout });
       } catch (error: any) {
         throw new Error(
-          `Type failed for selector "${selector}" (timeout ${timeout}ms): ${error.message}`,
+          `Type failed for ${description} (timeout ${timeout}ms): ${error.message}`,
           { cause: error }
         );
       }
@@ -211,38 +898,395 @@ class BrowserManager {
   }
 
   /**
-   * Get information about an element
+   * Press a key, chord or sequence of keys
+   * Key names follow Playwright: "Enter", "Escape", "Tab", "ArrowDown", "Control+A", "Shift+Tab"
    * 
-   * @param selector - Selector for element to inspect
-   * @param options - Options (timeoutMs)
-   * @returns Element information including found status, tag, text, and bounding box
-   * @throws Error if browser is not launched
+   * @param keys - Key or chord, or an array pressed in order (e.g. ["Tab", "Tab", "Enter"])
+   * @param options - Press options (target element to focus first, timeoutMs)
+   * @throws Error if browser is not launched or target not found/actionable
    */
-  async getElementInfo(
-    selector: string,
-    options?: { timeoutMs?: number }
-  ): Promise<{
-    selector: string;
-    found: boolean;
-    tag?: string;
-    text?: string;
-    boundingBox?: { x: number; y: number; width: number; height: number };
-  }> {
-    this.ensureLaunched('getElementInfo');
+  async press(keys: string | string[], options?: PressOptions): Promise<void> {
+    this.ensureLaunched('press');
 
+    const sequence = Array.isArray(keys) ? keys : [keys];
     const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
+    const target = options?.target;
+    const description = target ? ` on ${describeLocator(target)}` : '';
+
+    await this.runStep(`press ${sequence.join(', ')}${description}`, async () => {
+      const locator = target ? await this.resolveTarget(target) : null;
 
-    return await this.runStep(`get element info for "${selector}"`, async () => {
       try {
-        // Use locator-only approach
-        const loc = this.page!.locator(selector).first();
+        for (const key of sequence) {
+          if (locator) {
+            // Locator.press focuses the element (with actionability checks) first
+            await locator.press(key, { timeout });
+          } else {
+            await this.page!.keyboard.press(key);
+          }
+        }
+      } catch (error: any) {
+        throw new Error(
+          `Press ${sequence.join(', ')} failed${description} (timeout ${timeout}ms): ${error.message}`,
+          { cause: error }
+        );
+      }
+    });
+  }
 
-        // Wait for element to be attached (does not throw if timeout)
-        await loc.waitFor({ state: 'attached', timeout });
+  /**
+   * Hover over an element
+   * 
+   * @param target - Selector or locator spec of the element
+   * @param options - Options (timeoutMs, frame)
+   * @throws Error if browser is not launched or element not found/actionable
+   */
+  async hover(target: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('hover');
 
-        // Element was found, get info
-        const tag = await loc.evaluate((el) => el.tagName.toLowerCase());
-        
+    await this.runLocatorAction('hover', target, options, (locator, timeout) =>
+      locator.hover({ timeout })
+    );
+  }
+
+  /**
+   * Double-click an element
+   * 
+   * @param target - Selector or locator spec of the element
+   * @param options - Options (timeoutMs, frame)
+   * @throws Error if browser is not launched or element not found/actionable
+   */
+  async doubleClick(target: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('doubleClick');
+
+    await this.runLocatorAction('double-click', target, options, (locator, timeout) =>
+      locator.dblclick({ timeout })
+    );
+  }
+
+  /**
+   * Right-click an element (opens context menus)
+   * 
+   * @param target - Selector or locator spec of the element
+   * @param options - Options (timeoutMs, frame)
+   * @throws Error if browser is not launched or element not found/actionable
+   */
+  async rightClick(target: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('rightClick');
+
+    await this.runLocatorAction('right-click', target, options, (locator, timeout) =>
+      locator.click({ button: 'right', timeout })
+    );
+  }
+
+  /**
+   * Select options of a native <select> element
+   * Replaces the current selection; pass several options for <select multiple>.
+   * 
+   * @param target - Selector or locator spec of the <select> element
+   * @param options - Options to select by value, label or index
+   * @param selectOptions - Options (timeoutMs, frame)
+   * @returns Values of the options that ended up selected
+   * @throws Error if browser is not launched, element is not a select or an option does not exist
+   */
+  async selectOption(
+    target: LocatorSpec,
+    options: SelectOptionInput | SelectOptionInput[],
+    selectOptions?: ClickOptions
+  ): Promise<string[]> {
+    this.ensureLaunched('selectOption');
+
+    const list = Array.isArray(options) ? options : [options];
+
+    return await this.runLocatorAction('select option', target, selectOptions, (locator, timeout) =>
+      locator.selectOption(list, { timeout })
+    );
+  }
+
+  /**
+   * Check a checkbox or radio button
+   * 
+   * @param target - Selector or locator spec of the checkbox/radio
+   * @param options - Options (timeoutMs, frame)
+   * @throws Error if browser is not launched, element not found or it is not checked afterwards
+   */
+  async check(target: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('check');
+
+    await this.setChecked(target, true, options);
+  }
+
+  /**
+   * Uncheck a checkbox
+   * 
+   * @param target - Selector or locator spec of the checkbox
+   * @param options - Options (timeoutMs, frame)
+   * @throws Error if browser is not launched, element not found or it is still checked afterwards
+   */
+  async uncheck(target: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('uncheck');
+
+    await this.setChecked(target, false, options);
+  }
+
+  /**
+   * Set the files of an <input type="file"> element
+   * Files must be inside config.uploadDir (relative paths are resolved from it).
+   * An empty list clears the selection.
+   * 
+   * @param target - Selector or locator spec of the file input
+   * @param files - File paths relative to config.uploadDir
+   * @param options - Options (timeoutMs, frame)
+   * @returns Absolute paths of the uploaded files
+   * @throws Error if a file is outside the upload root or missing, or the element is not a file input
+   */
+  async uploadFiles(target: LocatorSpec, files: string[], options?: ClickOptions): Promise<string[]> {
+    this.ensureLaunched('uploadFiles');
+
+    const filePaths = files.map((file) => resolveWithin(config.uploadDir, file));
+
+    for (const filePath of filePaths) {
+      if (!await pathExists(filePath)) {
+        throw new Error(`Upload file not found: ${filePath}`);
+      }
+    }
+
+    await this.runLocatorAction('upload files', target, options, (locator, timeout) =>
+      locator.setInputFiles(filePaths, { timeout })
+    );
+
+    return filePaths;
+  }
+
+  /**
+   * Add a network route to the browser context (applies to all tabs)
+   * Fulfill with a mocked response, abort, or continue with modified headers.
+   * 
+   * @param spec - URL glob/RegExp, action and optional match limit (times)
+   * @returns Info of the new route (id, description, hits)
+   * @throws Error if browser is not launched or the fixture file is outside config.fixturesDir / missing
+   */
+  async addRoute(spec: RouteSpec): Promise<RouteInfo> {
+    this.ensureLaunched('addRoute');
+
+    let action = spec.action;
+    if (action.type === 'fulfill' && action.fixture) {
+      const fixturePath = resolveWithin(config.fixturesDir, action.fixture);
+      if (!await pathExists(fixturePath)) {
+        throw new Error(`Fixture file not found: ${fixturePath}`);
+      }
+      action = { ...action, fixture: fixturePath };
+    }
+
+    return await this.routeManager.add({ ...spec, action });
+  }
+
+  /**
+   * List the routes of the context (in the order they were added)
+   */
+  listRoutes(): RouteInfo[] {
+    this.ensureLaunched('listRoutes');
+    return this.routeManager.list();
+  }
+
+  /**
+   * Remove a route by ID, or all routes
+   * 
+   * @param routeId - Route to remove (omit to remove all)
+   * @returns Number of routes removed
+   * @throws Error if the route does not exist
+   */
+  async removeRoute(routeId?: string): Promise<number> {
+    this.ensureLaunched('removeRoute');
+
+    if (routeId === undefined) {
+      return await this.routeManager.removeAll();
+    }
+
+    await this.routeManager.remove(routeId);
+    return 1;
+  }
+
+  /**
+   * Get recent requests of all tabs (bounded log, oldest first)
+   * 
+   * @param filter - Status range, URL substring, resource type, failed only, since last call, limit
+   * @returns Matching entries and counts
+   * @throws Error if browser is not launched
+   */
+  getNetworkLog(filter?: NetworkFilter): NetworkLogResult {
+    this.ensureLaunched('getNetworkLog');
+    return this.networkLog.query(filter);
+  }
+
+  /**
+   * Get the response body of a logged request
+   * 
+   * @param requestId - Request ID from getNetworkLog() (req-N)
+   * @returns Body (UTF-8 text or base64), content type and size
+   * @throws Error if the request is unknown, has no response or its body is no longer available
+   */
+  async getResponseBody(requestId: string): Promise<ResponseBody> {
+    this.ensureLaunched('getResponseBody');
+
+    return await this.runStep(`get response body of ${requestId}`, async () => {
+      return await this.networkLog.getResponseBody(requestId);
+    });
+  }
+
+  /**
+   * Get console messages, page errors and crashes of all tabs (bounded log, oldest first)
+   * 
+   * @param filter - Minimum level, text substring, since last call, limit
+   * @returns Matching entries and counts
+   * @throws Error if browser is not launched
+   */
+  getConsoleMessages(filter?: ConsoleFilter): ConsoleLogResult {
+    this.ensureLaunched('getConsoleMessages');
+    return this.consoleLog.query(filter);
+  }
+
+  /**
+   * Get the errors (page errors, crashes, console.error) recorded since the previous call
+   * Works without a launched browser (returns the errors collected so far).
+   */
+  takeNewConsoleErrors(): ConsoleEntry[] {
+    return this.consoleLog.takeNewErrors();
+  }
+
+  /**
+   * Set how native dialogs (alert, confirm, prompt, beforeunload) are answered
+   * 
+   * @param policy - Accept (with optional prompt text) or dismiss
+   * @param once - Only answer the next dialog this way, then fall back to the policy
+   * @throws Error if browser is not launched or the action is unknown
+   */
+  setDialogPolicy(policy: DialogPolicy, once = false): void {
+    this.ensureLaunched('setDialogPolicy');
+    validateDialogPolicy(policy);
+
+    if (once) {
+      this.dialogHandler.armNext(policy);
+    } else {
+      this.dialogHandler.setPolicy(policy);
+    }
+  }
+
+  /**
+   * Get the dialog policy, the armed one-shot response and all dialogs seen
+   * 
+   * @throws Error if browser is not launched
+   */
+  getDialogs(): { policy: DialogPolicy; next: DialogPolicy | null } & DialogHistory {
+    this.ensureLaunched('getDialogs');
+
+    return {
+      policy: this.dialogHandler.getPolicy(),
+      next: this.dialogHandler.getArmed(),
+      ...this.dialogHandler.getHistory(),
+    };
+  }
+
+  /**
+   * Get the downloads of the session (saved to config.downloadDir)
+   * 
+   * @throws Error if browser is not launched
+   */
+  getDownloads(): DownloadInfo[] {
+    this.ensureLaunched('getDownloads');
+    return this.downloadManager.list();
+  }
+
+  /**
+   * Wait for the next download and for it to be saved
+   * Without a trigger, returns the oldest download not returned by a previous call
+   * (e.g. started by the click just before), or waits for one to start.
+   * 
+   * @param options - Element to click to start the download, timeoutMs
+   * @returns The download (status "saved", or "failed" with the reason)
+   * @throws Error if browser is not launched, the trigger click fails, or no download
+   *   starts/finishes within the timeout
+   */
+  async waitForDownload(options: WaitForDownloadOptions = {}): Promise<DownloadInfo> {
+    this.ensureLaunched('waitForDownload');
+
+    const timeout = options.timeoutMs ?? config.defaultTimeoutMs;
+    const trigger = options.trigger;
+    const stepName = trigger ? `wait for download after clicking ${describeLocator(trigger)}` : 'wait for download';
+
+    return await this.runStep(stepName, async () => {
+      const clickTrigger = trigger !== undefined
+        ? async () => {
+            const locator = await this.resolveTarget(trigger);
+            await locator.click({ timeout });
+          }
+        : undefined;
+
+      return await this.downloadManager.waitForNext(timeout, clickTrigger);
+    });
+  }
+
+  /**
+   * Drag an element and drop it onto another element
+   * 
+   * @param source - Selector or locator spec of the element to drag
+   * @param destination - Selector or locator spec of the drop target
+   * @param options - Options (timeoutMs)
+   * @throws Error if browser is not launched or either element is not found/actionable
+   */
+  async dragAndDrop(source: LocatorSpec, destination: LocatorSpec, options?: ClickOptions): Promise<void> {
+    this.ensureLaunched('dragAndDrop');
+
+    const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
+    const description = `${describeLocator(source)} to ${describeLocator(destination)}`;
+
+    await this.runStep(`drag ${description}`, async () => {
+      const sourceLocator = await this.resolveTarget(source);
+      const destinationLocator = await this.resolveTarget(destination);
+
+      try {
+        await sourceLocator.dragTo(destinationLocator, { timeout });
+      } catch (error: any) {
+        throw new Error(
+          `Drag and drop failed from ${description} (timeout ${timeout}ms): ${error.message}`,
+          { cause: error }
+        );
+      }
+    });
+  }
+
+  /**
+   * Get information about an element
+   * 
+   * @param target - Selector or locator spec of the element to inspect
+   * @param options - Options (timeoutMs, frame)
+   * @returns Element information including found status, tag, text, and bounding box
+   * @throws Error if browser is not launched, ref is stale or the frame is not found
+   */
+  async getElementInfo(
+    target: LocatorSpec,
+    options?: { timeoutMs?: number } & FrameOptions
+  ): Promise<ElementInfo> {
+    this.ensureLaunched('getElementInfo');
+
+    const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
+    const description = this.describeTarget(target, options?.frame);
+    const selector = typeof target === 'string' ? target : describeLocator(target);
+
+    return await this.runStep(`get element info for ${description}`, async () => {
+      // Stale refs and missing frames are an error, not a "not found" result
+      const locator = await this.resolveTarget(target, options?.frame);
+
+      try {
+        // Use locator-only approach
+        const loc = locator.first();
+
+        // Wait for element to be attached (does not throw if timeout)
+        await loc.waitFor({ state: 'attached', timeout });
+
+        // Element was found, get info
+        const tag = await loc.evaluate((el) => el.tagName.toLowerCase());
+        
         let text = await loc.innerText();
         // Truncate text to max 200 chars
         if (text && text.length > 200) {
@@ -260,7 +1304,7 @@ class BrowserManager {
         };
       } catch (error: any) {
         // Element not found within timeout - this is not an error for this method
-        logger.debug(`Element not found: "${selector}" (timeout ${timeout}ms)`);
+        logger.debug(`Element not found: ${description} (timeout ${timeout}ms)`);
         return {
           selector,
           found: false,
@@ -271,33 +1315,74 @@ class BrowserManager {
 
   /**
    * Take a screenshot
+   * Password fields and config.screenshotMaskSelectors are masked when maskSensitive is true.
    * 
-   * @param options - Screenshot options (path, fullPage, returnBase64)
+   * @param options - Screenshot options (path, fullPage, returnBase64, element or clip, type, quality, masking)
    * @returns Buffer or base64 string depending on returnBase64 option
-   * @throws Error if browser is not launched
+   * @throws Error if browser is not launched, element and clip/fullPage are combined,
+   *   the clip, type or quality is invalid, or the element is not found
    */
   async screenshot(options?: ScreenshotOptions): Promise<Buffer | string> {
     this.ensureLaunched('screenshot');
     
     const fullPage = options?.fullPage ?? false;
     const returnBase64 = options?.returnBase64 ?? false;
+    const element = options?.element;
+    const clip = options?.clip;
+
+    if (element !== undefined && (clip !== undefined || fullPage)) {
+      throw new Error('Element screenshots cannot be combined with clip or fullPage');
+    }
+    if (options?.frame && element === undefined) {
+      throw new Error('A frame can only be given for element screenshots');
+    }
+    if (clip) {
+      validateScreenshotClip(clip);
+    }
 
     let screenshotPath: string | undefined;
     
     if (options?.path) {
       screenshotPath = resolveAbsolute(options.path);
-      
+    }
+
+    const type = resolveScreenshotType(options?.type, screenshotPath);
+    validateScreenshotQuality(options?.quality, type);
+
+    if (screenshotPath) {
       // Ensure parent directory exists
       const parentDir = path.dirname(screenshotPath);
       await ensureDir(parentDir);
     }
 
-    // Take screenshot
-    const buffer = await this.page!.screenshot({
+    const maskSpecs = [
+      ...(options?.maskSensitive ? sensitiveMaskSelectors() : []),
+      ...(options?.mask ?? []),
+    ];
+    const mask = await Promise.all(maskSpecs.map((spec) => this.resolveTarget(spec)));
+
+    const imageOptions = {
       path: screenshotPath,
-      fullPage,
-      type: 'png',
-    });
+      type,
+      ...(options?.quality !== undefined && { quality: options.quality }),
+      ...(mask.length > 0 && { mask, maskColor: options?.maskColor ?? DEFAULT_MASK_COLOR }),
+    };
+
+    // Take screenshot
+    let buffer: Buffer;
+    if (element !== undefined) {
+      const description = this.describeTarget(element, options?.frame);
+      buffer = await this.runStep(`screenshot ${description}`, async () => {
+        const locator = await this.resolveTarget(element, options?.frame);
+        return await locator.screenshot({ ...imageOptions, timeout: options?.timeoutMs ?? config.defaultTimeoutMs });
+      });
+    } else {
+      buffer = await this.page!.screenshot({
+        ...imageOptions,
+        fullPage,
+        ...(clip && { clip }),
+      });
+    }
 
     if (returnBase64) {
       return buffer.toString('base64');
@@ -306,6 +1391,24 @@ class BrowserManager {
     return buffer;
   }
 
+  /**
+   * Scale a screenshot down to size limits and a byte budget (e.g. before handing it to an agent)
+   * Scaling runs in a temporary context of this session's browser; the tabs are not affected.
+   * Not a page step: failures are not recorded as failed steps (no error screenshot, trace kept as is).
+   * 
+   * @param data - PNG or JPEG data from screenshot()
+   * @param type - Image type of the data
+   * @param limits - Maximum width/height and bytes
+   * @param quality - JPEG quality used when re-encoding
+   * @returns The image (unchanged if it already fits) with its size
+   * @throws Error if browser is not launched or the budget cannot be met
+   */
+  async fitScreenshot(data: Buffer, type: ScreenshotType, limits: ImageLimits, quality?: number): Promise<FittedImage> {
+    this.ensureLaunched('fitScreenshot');
+
+    return await fitScreenshot(this.browser!, data, type, limits, quality);
+  }
+
   /**
    * Quit the browser (normal shutdown)
    * Closes page, context, and browser in order
@@ -317,30 +1420,47 @@ class BrowserManager {
     
     await this.runStep('quit', async () => {
       try {
-        if (this.page) {
-          await this.page.close();
-          this.page = null;
-        }
-
-        if (this.context) {
-          await this.context.close();
-          this.context = null;
-        }
+        await this.closeContext();
+        this.routeManager.clear();
 
         if (this.browser) {
           await this.browser.close();
           this.browser = null;
+          this.browserName = null;
         }
       } catch (error) {
         // Reset state even if close fails
-        this.page = null;
-        this.context = null;
-        this.browser = null;
+        this.resetState();
         throw error;
       }
     });
   }
 
+  /**
+   * Close the session in whatever state it is in (no-op if not launched)
+   * Unlike quit(), also closes a browser whose last tab was closed by the page or crashed.
+   * 
+   * @throws Error if closing the context or browser fails (the state is reset anyway)
+   */
+  async close(): Promise<void> {
+    if (this.isLaunched()) {
+      await this.quit();
+      return;
+    }
+
+    if (!this.browser) {
+      return;
+    }
+
+    // No tab left, so quit() would refuse
+    try {
+      await this.closeContext();
+      await this.browser.close();
+    } finally {
+      this.resetState();
+    }
+  }
+
   /**
    * Shutdown the browser (idempotent, safe to call multiple times)
    * Use for cleanup in signal handlers or error recovery
@@ -368,6 +1488,68 @@ class BrowserManager {
     }
   }
 
+  /**
+   * Get the engine of the launched browser
+   * 
+   * @returns Browser type or null if not launched
+   */
+  getBrowserType(): BrowserName | null {
+    return this.browserName;
+  }
+
+  /**
+   * Get the emulation settings in effect (viewport, locale, timezone, user agent, ...)
+   * 
+   * @returns Emulation settings or null if not launched
+   */
+  getEmulation(): EmulationSettings | null {
+    return this.emulation;
+  }
+
+  /**
+   * Get the files this session produced
+   * HAR files, automatic traces and videos are complete once the session has quit.
+   */
+  getArtifacts(): SessionArtifacts {
+    return { har: [...this.harFiles], trace: this.traceRecorder.getFiles(), video: this.videoRecorder.getFiles() };
+  }
+
+  /**
+   * Start a Playwright trace (screenshots, DOM snapshots, sources)
+   * 
+   * @param name - Zip file name in <artifactsDir>/trace (default: <sessionId>-<timestamp>.zip)
+   * @throws Error if browser is not launched, tracing is already running (also via trace mode),
+   *   or the name escapes the trace directory
+   */
+  async startTracing(name?: string): Promise<void> {
+    this.ensureLaunched('startTracing');
+
+    await this.runStep('start tracing', async () => {
+      await this.traceRecorder.start(this.context!, name);
+    });
+  }
+
+  /**
+   * Stop tracing and save the trace zip (also stops automatic tracing of the trace mode)
+   * 
+   * @returns Path of the trace zip (open with `npx playwright show-trace <path>`)
+   * @throws Error if browser is not launched or tracing is not running
+   */
+  async stopTracing(): Promise<string> {
+    this.ensureLaunched('stopTracing');
+
+    return await this.runStep('stop tracing', async () => {
+      return await this.traceRecorder.stop(this.context!);
+    });
+  }
+
+  /**
+   * Get the session ID of this manager
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
   /**
    * Check if browser is currently launched
    */
@@ -376,9 +1558,86 @@ class BrowserManager {
   }
 
   /**
-   * Get the current page (for advanced usage)
+   * List all open tabs
    * 
-   * @returns Current page or null if not launched
+   * @returns Tab info (id, url, title, active flag) in creation order
+   * @throws Error if browser is not launched
+   */
+  async listTabs(): Promise<TabInfo[]> {
+    this.ensureLaunched('listTabs');
+    return await this.pageManager.listPages();
+  }
+
+  /**
+   * Open a new tab and make it the active one
+   * 
+   * @param url - Optional URL to navigate the new tab to
+   * @returns ID of the new tab
+   * @throws Error if browser is not launched
+   */
+  async newTab(url?: string): Promise<string> {
+    this.ensureLaunched('newTab');
+
+    return await this.runStep(`new tab${url ? ` (${url})` : ''}`, async () => {
+      const tabId = await this.pageManager.createPage(this.context!);
+      await this.pageManager.setActivePage(tabId);
+
+      if (url) {
+        await this.page!.goto(url, { waitUntil: 'domcontentloaded' });
+      }
+
+      return tabId;
+    });
+  }
+
+  /**
+   * Make a tab the active one
+   * 
+   * @param tabId - Tab ID (see listTabs)
+   * @throws Error if browser is not launched or tab does not exist
+   */
+  async selectTab(tabId: string): Promise<void> {
+    this.ensureLaunched('selectTab');
+
+    await this.runStep(`select tab ${tabId}`, async () => {
+      await this.pageManager.setActivePage(tabId);
+    });
+  }
+
+  /**
+   * Close a tab
+   * If the active tab is closed, the most recently opened remaining tab becomes active.
+   * 
+   * @param tabId - Tab ID to close (default: active tab)
+   * @throws Error if browser is not launched, tab does not exist, or it is the last tab
+   */
+  async closeTab(tabId?: string): Promise<void> {
+    this.ensureLaunched('closeTab');
+
+    const targetId = tabId ?? this.pageManager.getActivePageId()!;
+
+    await this.runStep(`close tab ${targetId}`, async () => {
+      if (this.pageManager.count() <= 1) {
+        throw new Error('Cannot close the last tab. Call quit() to close the browser.');
+      }
+
+      await this.pageManager.closePage(targetId);
+    });
+  }
+
+  /**
+   * Get the ID of the active tab
+   * 
+   * @returns Active tab ID or null if not launched
+   */
+  getActiveTabId(): string | null {
+    return this.pageManager.getActivePageId();
+  }
+
+  /**
+   * Get the current (active) page (for advanced usage)
+   * 
+   * @returns Active page or null if not launched
    */
   getPage(): Page | null {
     return this.page;
@@ -402,6 +1661,349 @@ class BrowserManager {
     return this.browser;
   }
 
+  /**
+   * Launch a browser engine, turning "executable not found" into an actionable error
+   * 
+   * @param browserName - Engine to launch
+   * @param options - Playwright launch options
+   * @throws Error with install instructions if the browser is not installed
+   */
+  private async launchBrowser(
+    browserName: BrowserName,
+    options: { headless: boolean; slowMo: number }
+  ): Promise<Browser> {
+    const launchers: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
+    try {
+      return await launchers[browserName].launch(options);
+    } catch (error: any) {
+      if (/Executable doesn't exist/i.test(error.message)) {
+        throw new Error(
+          `Browser "${browserName}" is not installed. Run "npx playwright install ${browserName}" and try again.`,
+          { cause: error }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create the browser context and its first tab
+   * 
+   * @param storageStatePath - Optional absolute path of a storage state file to restore
+   */
+  private async createContext(storageStatePath?: string): Promise<void> {
+    const harPath = this.nextHarPath();
+    const videoOptions = await this.videoRecorder.contextOptions();
+
+    // Create context with viewport and emulation settings
+    this.context = await this.browser!.newContext({
+      ...this.contextOptions,
+      ...videoOptions,
+      ...(storageStatePath && { storageState: storageStatePath }),
+      ...(harPath && { recordHar: { path: harPath, urlFilter: this.harRecording!.urlFilter } }),
+    });
+
+    if (storageStatePath) {
+      logger.info(`Storage state restored from ${storageStatePath}`);
+    }
+
+    if (harPath) {
+      logger.info(`Recording HAR to ${harPath} (written when the session closes)`);
+    }
+
+    // Before the user routes: routes added later take precedence over the HAR
+    if (this.harReplay) {
+      await this.context.routeFromHAR(this.harReplay.path, {
+        url: this.harReplay.urlFilter,
+        notFound: this.harReplay.notFound ?? 'abort',
+      });
+      logger.info(`Replaying responses from ${this.harReplay.path}`);
+    }
+
+    // Routes first, so the first page's requests are already intercepted
+    await this.routeManager.attach(this.context);
+    this.networkLog.attach(this.context);
+    this.consoleLog.attach(this.context);
+    this.dialogHandler.attach(this.context);
+    this.downloadManager.attach(this.context);
+    await this.traceRecorder.attach(this.context);
+
+    // Track tabs (including popups opened by the app) and create the first page
+    this.pageManager.attach(this.context);
+    this.videoRecorder.attach(this.context);
+    await this.pageManager.createPage(this.context);
+
+    this.emulation = await readEmulationSettings(this.page!, this.emulationOptions, this.contextOptions);
+    logger.debug(`Emulation: ${JSON.stringify(this.emulation)}`);
+  }
+
+  /**
+   * Close the browser context (and all its tabs)
+   */
+  private async closeContext(): Promise<void> {
+    if (this.context) {
+      try {
+        await this.traceRecorder.detach(this.context);
+      } catch (error: any) {
+        logger.warn(`Failed to finish trace: ${error.message}`);
+      }
+
+      await this.context.close();
+      this.context = null;
+
+      // Videos are complete once the context is closed
+      await this.videoRecorder.finalize();
+    }
+
+    this.pageManager.clear();
+    this.emulation = null;
+  }
+
+  /**
+   * Close the context and browser without a page step (e.g. after a failed launch) and reset the state
+   * Close errors are logged, not thrown.
+   */
+  private async discardBrowser(): Promise<void> {
+    try {
+      await this.closeContext();
+    } catch (error: any) {
+      logger.warn(`Failed to close context: ${error.message}`);
+    }
+
+    try {
+      await this.browser?.close();
+    } catch (error: any) {
+      logger.warn(`Failed to close browser: ${error.message}`);
+    }
+
+    this.resetState();
+  }
+
+  /**
+   * Forget the context, tabs, routes and browser (they are closed or unusable)
+   */
+  private resetState(): void {
+    this.pageManager.clear();
+    this.routeManager.clear();
+    this.emulation = null;
+    this.context = null;
+    this.browser = null;
+    this.browserName = null;
+  }
+
+  /**
+   * Resolve HAR recording options (launch option or config) to an absolute path
+   * 
+   * @returns Recording options or null if the session is not recorded
+   * @throws Error if the path escapes the HAR directory or the URL filter is invalid
+   */
+  private resolveHarRecording(option?: HarRecordOptions): HarRecordOptions | null {
+    const recording = option ?? (config.recordHar
+      ? {
+          path: config.recordHar,
+          urlFilter: config.recordHarUrlFilter ? parseUrlPattern(config.recordHarUrlFilter) : undefined,
+        }
+      : null);
+
+    if (!recording) {
+      return null;
+    }
+
+    return { ...recording, path: resolveArtifactPath('har', recording.path, '.har') };
+  }
+
+  /**
+   * Resolve HAR replay options (launch option or config) and verify the file exists
+   * 
+   * @returns Replay options or null if nothing is replayed
+   * @throws Error if the path escapes the HAR directory or the file does not exist
+   */
+  private async resolveHarReplay(option?: HarReplayOptions): Promise<HarReplayOptions | null> {
+    const replay = option ?? (config.replayHar ? { path: config.replayHar } : null);
+
+    if (!replay) {
+      return null;
+    }
+
+    const harPath = resolveArtifactPath('har', replay.path, '.har');
+    if (!await pathExists(harPath)) {
+      throw new Error(`HAR file not found: ${harPath}. Record one first with recordHar (files are in ${artifactDir('har')}).`);
+    }
+
+    return { ...replay, path: harPath };
+  }
+
+  /**
+   * HAR path for the next context of the session
+   * A recreated context (e.g. loadStorageState) records to a numbered file
+   * (login.har, login-2.har, ...) so the earlier recording is not overwritten.
+   */
+  private nextHarPath(): string | undefined {
+    if (!this.harRecording) {
+      return undefined;
+    }
+
+    const basePath = this.harRecording.path;
+    const extension = path.extname(basePath);
+    const harPath = this.harFiles.length === 0
+      ? basePath
+      : `${basePath.slice(0, -extension.length)}-${this.harFiles.length + 1}${extension}`;
+
+    this.harFiles.push(harPath);
+    return harPath;
+  }
+
+  /**
+   * Resolve a storage state file name inside the auth-state directory
+   */
+  private resolveStorageStatePath(filePath: string): string {
+    const fileName = path.extname(filePath) ? filePath : `${filePath}.json`;
+    return resolveWithin(config.authStateDir, fileName);
+  }
+
+  /**
+   * Resolve a storage state file name and verify the file exists
+   * 
+   * @throws Error if the file does not exist
+   */
+  private async resolveExistingStorageState(filePath: string): Promise<string> {
+    const statePath = this.resolveStorageStatePath(filePath);
+
+    if (!await pathExists(statePath)) {
+      throw new Error(
+        `Storage state not found: ${statePath}. Save one first with saveStorageState().`
+      );
+    }
+
+    return statePath;
+  }
+
+  /**
+   * Check or uncheck an element and verify the resulting state
+   * (custom widgets may swallow the click or re-render unchecked)
+   */
+  private async setChecked(target: LocatorSpec, checked: boolean, options?: ClickOptions): Promise<void> {
+    const actionName = checked ? 'check' : 'uncheck';
+    const description = this.describeTarget(target, options?.frame);
+
+    await this.runLocatorAction(actionName, target, options, async (locator, timeout) => {
+      if (checked) {
+        await locator.check({ timeout });
+      } else {
+        await locator.uncheck({ timeout });
+      }
+
+      if (await locator.isChecked({ timeout }) !== checked) {
+        throw new Error(`${description} is still ${checked ? 'unchecked' : 'checked'}`);
+      }
+    });
+  }
+
+  /**
+   * Run a single-element action as a step: resolve target, apply timeout, wrap errors
+   * 
+   * @param actionName - Action name for logs/errors (e.g. "hover")
+   * @param target - Element to act on
+   * @param options - Options (timeoutMs, frame)
+   * @param action - Playwright call to perform on the resolved locator
+   * @returns Result of the action
+   */
+  private async runLocatorAction<T>(
+    actionName: string,
+    target: LocatorSpec,
+    options: ClickOptions | undefined,
+    action: (locator: Locator, timeout: number) => Promise<T>
+  ): Promise<T> {
+    const timeout = options?.timeoutMs ?? config.defaultTimeoutMs;
+    const description = this.describeTarget(target, options?.frame);
+
+    return await this.runStep(`${actionName} ${description}`, async () => {
+      const locator = await this.resolveTarget(target, options?.frame);
+
+      try {
+        return await action(locator, timeout);
+      } catch (error: any) {
+        const label = actionName.charAt(0).toUpperCase() + actionName.slice(1);
+        throw new Error(
+          `${label} failed for ${description} (timeout ${timeout}ms): ${error.message}`,
+          { cause: error }
+        );
+      }
+    });
+  }
+
+  /**
+   * URL and title of the active tab plus the status of the navigation's document response
+   */
+  private async buildNavigationResult(response: Response | null): Promise<NavigationResult> {
+    return {
+      url: this.page!.url(),
+      title: await this.page!.title(),
+      ...(response && { status: response.status(), statusText: response.statusText() }),
+    };
+  }
+
+  /**
+   * Resolve a locator spec to a locator on the active tab (or one of its frames)
+   * 
+   * @throws Error if a ref is unknown, stale (tab navigated / newer snapshot) or detached,
+   *   or the frame is not found
+   */
+  private async resolveTarget(target: LocatorSpec, frame?: FrameTarget): Promise<Locator> {
+    const locator = resolveLocator(this.locatorRoot(target, frame), target, (ref) => this.resolveRef(ref));
+
+    if (typeof target !== 'string' && 'ref' in target && await locator.count() === 0) {
+      this.snapshotRefs.get(this.page!)?.delete(target.ref);
+      throw new Error(
+        `Ref "${target.ref}" no longer exists in the page (element was removed or re-rendered). Take a new snapshot.`
+      );
+    }
+
+    return locator;
+  }
+
+  /**
+   * Where to search for a target: the active tab, or a frame in it
+   * 
+   * @throws Error if a snapshot ref is combined with a frame (refs belong to the top page)
+   *   or a frame name/URL matches no frame
+   */
+  private locatorRoot(target: LocatorSpec, frame?: FrameTarget): LocatorRoot {
+    if (!frame) {
+      return this.page!;
+    }
+
+    if (typeof target !== 'string' && 'ref' in target) {
+      throw new Error(`Snapshot refs belong to the top page and cannot be combined with ${describeFrame(frame)}`);
+    }
+
+    return resolveFrameRoot(this.page!, frame);
+  }
+
+  /**
+   * Describe a target for logs and errors, including its frame
+   */
+  private describeTarget(target: LocatorSpec, frame?: FrameTarget): string {
+    return frame ? `${describeLocator(target)} in ${describeFrame(frame)}` : describeLocator(target);
+  }
+
+  /**
+   * Resolve a snapshot ref of the active tab to a locator
+   * 
+   * @throws Error if the ref is unknown or stale (tab navigated / newer snapshot)
+   */
+  private resolveRef(ref: string): Locator {
+    const refs = this.snapshotRefs.get(this.page!);
+    if (!refs || !refs.has(ref)) {
+      throw new Error(
+        `Ref "${ref}" is unknown or stale (page changed since the snapshot). Take a new snapshot.`
+      );
+    }
+
+    return this.page!.locator(`[${REF_ATTRIBUTE}="${ref}"]`);
+  }
+
   /**
    * Ensure browser is launched before operation
    * 
@@ -426,16 +2028,25 @@ class BrowserManager {
    */
   private async runStep<T>(stepName: string, fn: () => Promise<T>): Promise<T> {
     const startTime = Date.now();
-    logger.info(`Starting: ${stepName}`);
+    const prefix = this.sessionId === 'default' ? '' : `[${this.sessionId}] `;
+    logger.info(`${prefix}Starting: ${stepName}`);
 
     try {
       const result = await fn();
       const duration = Date.now() - startTime;
-      logger.info(`Completed: ${stepName} (${duration}ms)`);
+      logger.info(`${prefix}Completed: ${stepName} (${duration}ms)`);
       return result;
     } catch (error: any) {
       const duration = Date.now() - startTime;
-      logger.error(`Failed: ${stepName} (${duration}ms) - ${error.message}`);
+      logger.error(`${prefix}Failed: ${stepName} (${duration}ms) - ${error.message}`);
+      this.traceRecorder.markFailed();
+
+      // The app's own errors often explain why a step failed
+      const consoleErrors = this.consoleLog.recentErrors(RECENT_CONSOLE_ERRORS);
+      if (consoleErrors.length > 0) {
+        logger.error(`${prefix}Last ${consoleErrors.length} console error(s):`);
+        consoleErrors.forEach((entry) => logger.error(`${prefix}  ${formatConsoleEntry(entry)}`));
+      }
 
       // Best effort: try to take error screenshot
       await this.captureErrorScreenshot(stepName);
@@ -449,22 +2060,26 @@ class BrowserManager {
    * Capture screenshot on error (best effort, doesn't throw)
    * 
    * @param stepName - Name of the step that failed
+   * @param prefix - Filename prefix ("error" for failed steps, "verify" for failed soft checks)
+   * @returns Screenshot path, or null if it could not be captured
    */
-  private async captureErrorScreenshot(stepName: string): Promise<void> {
+  private async captureErrorScreenshot(stepName: string, prefix = 'error'): Promise<string | null> {
     try {
       if (!this.page) {
         logger.debug('Cannot capture error screenshot: No page available');
-        return;
+        return null;
       }
 
-      const filename = this.buildErrorScreenshotName(stepName);
+      const filename = this.buildErrorScreenshotName(stepName, prefix);
       const screenshotPath = path.join(config.screenshotDir, filename);
 
       await this.screenshot({ path: screenshotPath, fullPage: true });
       logger.info(`Error screenshot saved: ${screenshotPath}`);
+      return screenshotPath;
     } catch (screenshotError: any) {
       // Best effort - don't fail if screenshot fails
       logger.debug(`Failed to capture error screenshot: ${screenshotError.message}`);
+      return null;
     }
   }
 
@@ -474,9 +2089,10 @@ class BrowserManager {
    * Format: error-20260127T153010Z-click-button_submit.png
    * 
    * @param stepName - Name of the step that failed
+   * @param prefix - Filename prefix
    * @returns Safe filename for Windows/Unix
    */
-  private buildErrorScreenshotName(stepName: string): string {
+  private buildErrorScreenshotName(stepName: string, prefix = 'error'): string {
     // Get timestamp in ISO format without colons (Windows-safe)
     const now = new Date();
     const timestamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
@@ -484,7 +2100,7 @@ class BrowserManager {
     // Sanitize step name: replace non-alphanumeric with underscore
     const safeName = stepName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
 
-    return `error-${timestamp}-${safeName}.png`;
+    return `${prefix}-${timestamp}-${safeName}.png`;
   }
 
   /**
@@ -3,11 +3,70 @@
  * Uses environment variables with sensible defaults
  */
 
+import { logger } from '../utils/logger';
+
+/**
+ * Browser engines supported by Playwright
+ */
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export const BROWSER_NAMES: readonly BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+/**
+ * Response to native dialogs (alert, confirm, prompt, beforeunload)
+ */
+export type DialogAction = 'accept' | 'dismiss';
+
+export const DIALOG_ACTIONS: readonly DialogAction[] = ['accept', 'dismiss'];
+
+/**
+ * Playwright tracing: off, always kept, or kept only when a step failed
+ */
+export type TraceMode = 'off' | 'on' | 'retain-on-failure';
+
+export const TRACE_MODES: readonly TraceMode[] = ['off', 'on', 'retain-on-failure'];
+
 export interface BrowserConfig {
+  browserType: BrowserName;
   headless: boolean;
   slowMoMs: number;
   defaultTimeoutMs: number;
   screenshotDir: string;
+  /** Selectors covered in every screenshot besides password fields (PII, tokens, ...) */
+  screenshotMaskSelectors: string[];
+  /** Scale screenshots returned to agents down to this width / height / byte size (0 = no limit) */
+  screenshotMaxWidth: number;
+  screenshotMaxHeight: number;
+  screenshotMaxBytes: number;
+  /** Directory where downloads are saved */
+  downloadDir: string;
+  /** Directory for session artifacts (HAR files, traces, videos, ...), next to screenshotDir */
+  artifactsDir: string;
+  authStateDir: string;
+  /** Root directory for file uploads - uploadFiles() only accepts files inside it */
+  uploadDir: string;
+  /** Root directory for route fixture files (mocked response bodies) */
+  fixturesDir: string;
+  /** Record every session's traffic to this HAR file (name in artifactsDir/har) */
+  recordHar?: string;
+  /** Only record requests matching this URL glob or "/regex/" */
+  recordHarUrlFilter?: string;
+  /** Serve requests from this HAR file instead of the network (name in artifactsDir/har) */
+  replayHar?: string;
+  /** Number of requests kept in the network log */
+  networkLogSize: number;
+  /** Number of console messages / page errors kept per session */
+  consoleLogSize: number;
+  /** Append new page errors to every MCP tool result (opt-in) */
+  consoleErrorsInResults: boolean;
+  /** Default response to native dialogs */
+  dialogAction: DialogAction;
+  /** Text entered into prompt() dialogs that are accepted (default: the prompt's default value) */
+  dialogPromptText?: string;
+  /** Trace every session (zips in artifactsDir/trace) */
+  traceMode: TraceMode;
+  /** Record a video of every session (webm files in artifactsDir/video) */
+  recordVideo: boolean;
 }
 
 /**
@@ -41,15 +100,66 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return parsed;
 }
 
+/**
+ * Parse a comma-separated list (empty entries are dropped)
+ */
+function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Parse one of a fixed set of values (case-insensitive)
+ * Unknown values fall back to the default with a warning, so typos do not go unnoticed.
+ */
+function parseEnum<T extends string>(
+  name: string,
+  value: string | undefined,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  if (!value) return defaultValue;
+
+  const normalized = value.toLowerCase().trim();
+  const parsed = allowed.find((entry) => entry === normalized);
+  if (parsed === undefined) {
+    logger.warn(`Unknown ${name} value "${value}" (expected one of: ${allowed.join(', ')}), using ${defaultValue}`);
+    return defaultValue;
+  }
+
+  return parsed;
+}
+
 /**
  * Load configuration from environment variables
  */
 export function loadConfig(): BrowserConfig {
   return {
+    browserType: parseEnum('BROWSER', process.env.BROWSER, BROWSER_NAMES, 'chromium'),
     headless: parseBoolean(process.env.HEADLESS, false),
     slowMoMs: parseNumber(process.env.SLOWMO_MS, 0),
     defaultTimeoutMs: parseNumber(process.env.DEFAULT_TIMEOUT_MS, 30000),
     screenshotDir: process.env.SCREENSHOT_DIR || './screenshots',
+    screenshotMaskSelectors: parseList(process.env.SCREENSHOT_MASK_SELECTORS),
+    screenshotMaxWidth: parseNumber(process.env.SCREENSHOT_MAX_WIDTH, 0),
+    screenshotMaxHeight: parseNumber(process.env.SCREENSHOT_MAX_HEIGHT, 0),
+    screenshotMaxBytes: parseNumber(process.env.SCREENSHOT_MAX_BYTES, 0),
+    downloadDir: process.env.DOWNLOAD_DIR || './downloads',
+    artifactsDir: process.env.ARTIFACTS_DIR || './artifacts',
+    authStateDir: process.env.AUTH_STATE_DIR || './auth-state',
+    uploadDir: process.env.UPLOAD_DIR || './uploads',
+    fixturesDir: process.env.FIXTURES_DIR || './fixtures',
+    recordHar: process.env.RECORD_HAR || undefined,
+    recordHarUrlFilter: process.env.RECORD_HAR_URL_FILTER || undefined,
+    replayHar: process.env.REPLAY_HAR || undefined,
+    networkLogSize: Math.max(1, parseNumber(process.env.NETWORK_LOG_SIZE, 500)),
+    consoleLogSize: Math.max(1, parseNumber(process.env.CONSOLE_LOG_SIZE, 500)),
+    consoleErrorsInResults: parseBoolean(process.env.CONSOLE_ERRORS_IN_RESULTS, false),
+    dialogAction: parseEnum('DIALOG_POLICY', process.env.DIALOG_POLICY, DIALOG_ACTIONS, 'dismiss'),
+    dialogPromptText: process.env.DIALOG_PROMPT_TEXT || undefined,
+    traceMode: parseEnum('TRACE_MODE', process.env.TRACE_MODE, TRACE_MODES, 'off'),
+    recordVideo: parseBoolean(process.env.RECORD_VIDEO, false),
   };
 }
 
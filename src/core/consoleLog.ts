@@ -0,0 +1,200 @@
+/**
+ * ConsoleLog - Bounded log of console messages, page errors and crashes
+ *
+ * Records `console.*` output, uncaught exceptions (`pageerror`) and page
+ * crashes of every tab in a ring buffer. Besides filtered queries it keeps
+ * a separate cursor for errors, so callers can ask "which errors are new
+ * since I last looked" (used to flag errors in tool results).
+ */
+
+import { BrowserContext, ConsoleMessage, Page } from 'playwright';
+import { RingBuffer } from '../utils/ringBuffer';
+import { logger } from '../utils/logger';
+
+export type ConsoleLevel = 'debug' | 'log' | 'info' | 'warning' | 'error';
+
+/** Levels from least to most severe */
+export const CONSOLE_LEVELS: readonly ConsoleLevel[] = ['debug', 'log', 'info', 'warning', 'error'];
+
+export type ConsoleSource = 'console' | 'pageerror' | 'crash';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  source: ConsoleSource;
+  text: string;
+  /** Script location (url:line:column) if known */
+  location?: string;
+  /** Tab the message came from */
+  tabId?: string;
+  timestamp: string;
+}
+
+export interface ConsoleFilter {
+  /** Minimum level (e.g. "warning" returns warnings and errors) */
+  level?: ConsoleLevel;
+  /** Case-insensitive substring of the text */
+  textContains?: string;
+  /** Only entries recorded since the previous call that used sinceLastCall */
+  sinceLastCall?: boolean;
+  /** Return at most this many (most recent) entries */
+  limit?: number;
+}
+
+export interface ConsoleLogResult {
+  entries: ConsoleEntry[];
+  /** Entries matching the filter before applying the limit */
+  matched: number;
+  /** Entries dropped from the buffer since it was created or cleared */
+  dropped: number;
+}
+
+// Longest message text kept (stack traces can be huge)
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * ConsoleLog class - records console output of one browser context at a time
+ */
+class ConsoleLog {
+  private buffer: RingBuffer<ConsoleEntry>;
+  private lastReadSeq = 0;
+  private lastErrorSeq = 0;
+
+  /**
+   * @param capacity - Number of entries kept
+   * @param tabIdOf - Resolves the tab ID of a page (for entry.tabId)
+   */
+  constructor(capacity: number, private readonly tabIdOf: (page: Page) => string | null) {
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  /**
+   * Start recording console output of a context (all current and future tabs)
+   */
+  attach(context: BrowserContext): void {
+    context.on('console', (message) => {
+      this.add(message.page(), levelOf(message), 'console', message.text(), formatLocation(message));
+    });
+
+    context.on('weberror', (webError) => {
+      const error = webError.error();
+      this.add(webError.page(), 'error', 'pageerror', error.stack || `${error.name}: ${error.message}`);
+    });
+
+    const watchCrash = (page: Page) => {
+      page.on('crash', () => this.add(page, 'error', 'crash', `Page crashed: ${page.url()}`));
+    };
+    context.pages().forEach(watchCrash);
+    context.on('page', watchCrash);
+  }
+
+  /**
+   * Entries matching a filter (oldest first)
+   */
+  query(filter: ConsoleFilter = {}): ConsoleLogResult {
+    const afterSeq = filter.sinceLastCall ? this.lastReadSeq : 0;
+    if (filter.sinceLastCall) {
+      this.lastReadSeq = this.buffer.lastSeq;
+    }
+
+    const minSeverity = CONSOLE_LEVELS.indexOf(filter.level ?? 'debug');
+    const needle = filter.textContains?.toLowerCase();
+
+    const matching = this.buffer.toArray(afterSeq).filter((entry) =>
+      CONSOLE_LEVELS.indexOf(entry.level) >= minSeverity &&
+      (!needle || entry.text.toLowerCase().includes(needle))
+    );
+
+    const entries = filter.limit !== undefined ? matching.slice(-filter.limit) : matching;
+
+    return { entries, matched: matching.length, dropped: this.buffer.dropped };
+  }
+
+  /**
+   * Errors recorded since the previous call (page errors, crashes, console.error)
+   */
+  takeNewErrors(): ConsoleEntry[] {
+    const errors = this.buffer
+      .toArray(this.lastErrorSeq)
+      .filter((entry) => entry.level === 'error');
+
+    this.lastErrorSeq = this.buffer.lastSeq;
+    return errors;
+  }
+
+  /**
+   * The last errors in the buffer
+   *
+   * @param count - Maximum number of errors
+   */
+  recentErrors(count: number): ConsoleEntry[] {
+    return this.buffer
+      .toArray()
+      .filter((entry) => entry.level === 'error')
+      .slice(-count);
+  }
+
+  /**
+   * Forget all entries (e.g. at launch)
+   */
+  clear(): void {
+    this.buffer.clear();
+    this.lastReadSeq = this.buffer.lastSeq;
+    this.lastErrorSeq = this.buffer.lastSeq;
+  }
+
+  private add(page: Page | null, level: ConsoleLevel, source: ConsoleSource, text: string, location?: string): void {
+    const tabId = page ? this.tabIdOf(page) : null;
+
+    this.buffer.push({
+      level,
+      source,
+      text: text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH)}...` : text,
+      ...(location && { location }),
+      ...(tabId && { tabId }),
+      timestamp: new Date().toISOString(),
+    });
+
+    if (source !== 'console') {
+      logger.warn(`Browser ${source}${tabId ? ` in ${tabId}` : ''}: ${text.split('\n')[0]}`);
+    }
+  }
+}
+
+/**
+ * Map a console message type to a level
+ */
+function levelOf(message: ConsoleMessage): ConsoleLevel {
+  switch (message.type()) {
+    case 'error':
+    case 'assert':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'info';
+    case 'debug':
+    case 'trace':
+      return 'debug';
+    default:
+      return 'log';
+  }
+}
+
+function formatLocation(message: ConsoleMessage): string | undefined {
+  const { url, lineNumber, columnNumber } = message.location();
+  return url ? `${url}:${lineNumber + 1}:${columnNumber + 1}` : undefined;
+}
+
+/**
+ * Format an entry as one line (first line of the text)
+ *
+ * Example: [error] tab-1 Uncaught TypeError: x is undefined (https://shop.test/app.js:12:5)
+ */
+export function formatConsoleEntry(entry: ConsoleEntry): string {
+  const source = entry.source === 'console' ? '' : ` ${entry.source}`;
+  const tab = entry.tabId ? ` ${entry.tabId}` : '';
+  const location = entry.location ? ` (${entry.location})` : '';
+  return `[${entry.level}${source}]${tab} ${entry.text.split('\n')[0]}${location}`;
+}
+
+export { ConsoleLog };
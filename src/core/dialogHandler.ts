@@ -0,0 +1,199 @@
+/**
+ * DialogHandler - Policy-driven handling of native dialogs
+ *
+ * alert(), confirm(), prompt() and beforeunload dialogs block the page until
+ * they are answered. Every dialog of every tab is answered right away
+ * according to the session's policy (accept - with prompt text - or dismiss),
+ * unless a one-shot response was armed for the next dialog. Each dialog is
+ * recorded with its type, message and the response it got.
+ */
+
+import { BrowserContext, Dialog, Page } from 'playwright';
+import { config, DialogAction, DIALOG_ACTIONS } from './config';
+import { RingBuffer } from '../utils/ringBuffer';
+import { logger } from '../utils/logger';
+
+export interface DialogPolicy {
+  action: DialogAction;
+  /** Text entered into prompt() when accepting (default: the prompt's default value) */
+  promptText?: string;
+}
+
+export interface DialogRecord {
+  /** alert, confirm, prompt or beforeunload */
+  type: string;
+  message: string;
+  /** Default value of a prompt() */
+  defaultValue?: string;
+  action: DialogAction;
+  /** Text entered into an accepted prompt() */
+  promptText?: string;
+  /** Answered by an armed one-shot response instead of the policy */
+  oneShot: boolean;
+  /** Tab that opened the dialog */
+  tabId?: string;
+  /** Page URL when the dialog opened */
+  url: string;
+  timestamp: string;
+}
+
+export interface DialogHistory {
+  dialogs: DialogRecord[];
+  /** Dialogs dropped from the history since it was created or cleared */
+  dropped: number;
+}
+
+// Dialogs kept in the history
+const MAX_DIALOGS = 100;
+
+/**
+ * DialogHandler class - answers the dialogs of one browser context at a time
+ */
+class DialogHandler {
+  private history = new RingBuffer<DialogRecord>(MAX_DIALOGS);
+  private policy: DialogPolicy;
+  private armed: DialogPolicy | null = null;
+
+  /**
+   * @param defaultPolicy - Policy until setPolicy() is called
+   * @param tabIdOf - Resolves the tab ID of a page (for record.tabId)
+   */
+  constructor(defaultPolicy: DialogPolicy, private readonly tabIdOf: (page: Page) => string | null) {
+    this.policy = defaultPolicy;
+  }
+
+  /**
+   * Start answering the dialogs of a context (all current and future tabs)
+   */
+  attach(context: BrowserContext): void {
+    context.on('dialog', (dialog) => {
+      this.handle(dialog).catch((error) => {
+        logger.warn(`Failed to answer ${dialog.type()} dialog: ${error.message}`);
+      });
+    });
+  }
+
+  /**
+   * Policy for all following dialogs
+   */
+  setPolicy(policy: DialogPolicy): void {
+    this.policy = policy;
+    logger.info(`Dialog policy: ${describeDialogPolicy(policy)}`);
+  }
+
+  getPolicy(): DialogPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Answer only the next dialog this way (then the policy applies again)
+   */
+  armNext(response: DialogPolicy): void {
+    this.armed = response;
+    logger.info(`Next dialog: ${describeDialogPolicy(response)}`);
+  }
+
+  /**
+   * One-shot response waiting for the next dialog, if any
+   */
+  getArmed(): DialogPolicy | null {
+    return this.armed ? { ...this.armed } : null;
+  }
+
+  /**
+   * Dialogs seen so far (oldest first)
+   */
+  getHistory(): DialogHistory {
+    return { dialogs: this.history.toArray(), dropped: this.history.dropped };
+  }
+
+  /**
+   * Forget the history and any armed response (e.g. at launch)
+   *
+   * @param policy - New policy
+   */
+  reset(policy: DialogPolicy): void {
+    this.history.clear();
+    this.armed = null;
+    this.policy = policy;
+  }
+
+  private async handle(dialog: Dialog): Promise<void> {
+    const oneShot = this.armed !== null;
+    const response = this.armed ?? this.policy;
+    this.armed = null;
+
+    const page = dialog.page();
+    const tabId = page ? this.tabIdOf(page) : null;
+    const isPrompt = dialog.type() === 'prompt';
+    const promptText = isPrompt && response.action === 'accept'
+      ? response.promptText ?? dialog.defaultValue()
+      : undefined;
+
+    this.history.push({
+      type: dialog.type(),
+      message: dialog.message(),
+      ...(isPrompt && { defaultValue: dialog.defaultValue() }),
+      action: response.action,
+      ...(promptText !== undefined && { promptText }),
+      oneShot,
+      ...(tabId && { tabId }),
+      url: page?.url() ?? '',
+      timestamp: new Date().toISOString(),
+    });
+
+    logger.info(`Dialog ${dialog.type()} "${dialog.message()}" -> ${response.action}${oneShot ? ' (one-shot)' : ''}`);
+
+    if (response.action === 'accept') {
+      await dialog.accept(promptText);
+    } else {
+      await dialog.dismiss();
+    }
+  }
+}
+
+/**
+ * Policy from config (DIALOG_POLICY / DIALOG_PROMPT_TEXT)
+ */
+export function defaultDialogPolicy(): DialogPolicy {
+  return {
+    action: config.dialogAction,
+    ...(config.dialogPromptText !== undefined && { promptText: config.dialogPromptText }),
+  };
+}
+
+/**
+ * @throws Error if the action is unknown or the prompt text is not a string
+ */
+export function validateDialogPolicy(policy: DialogPolicy): void {
+  if (!DIALOG_ACTIONS.includes(policy.action)) {
+    throw new Error(`Unknown dialog action "${policy.action}". Use one of: ${DIALOG_ACTIONS.join(', ')}`);
+  }
+
+  if (policy.promptText !== undefined && typeof policy.promptText !== 'string') {
+    throw new Error('Dialog prompt text must be a string');
+  }
+}
+
+/**
+ * Describe a policy, e.g. accept (prompt text "42")
+ */
+export function describeDialogPolicy(policy: DialogPolicy): string {
+  return policy.action === 'accept' && policy.promptText !== undefined
+    ? `accept (prompt text ${JSON.stringify(policy.promptText)})`
+    : policy.action;
+}
+
+/**
+ * Format a dialog record as one line
+ *
+ * Example: confirm "Delete 3 items?" -> accept [tab-1]
+ */
+export function formatDialogRecord(record: DialogRecord): string {
+  const text = record.promptText !== undefined ? ` with ${JSON.stringify(record.promptText)}` : '';
+  const oneShot = record.oneShot ? ' (one-shot)' : '';
+  const tab = record.tabId ? ` [${record.tabId}]` : '';
+  return `${record.type} ${JSON.stringify(record.message)} -> ${record.action}${text}${oneShot}${tab}`;
+}
+
+export { DialogHandler };
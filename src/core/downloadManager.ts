@@ -0,0 +1,253 @@
+/**
+ * DownloadManager - Captures the downloads of a browser context
+ *
+ * Every download of every tab is saved to config.downloadDir under a safe
+ * version of its suggested filename (numbered when the name is taken), so
+ * files exported by the app can be inspected after the click that started
+ * them. Downloads get IDs (download-1, download-2, ...) and are listed with
+ * size, source URL and a MIME type guessed from the extension.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, Download, Page } from 'playwright';
+import { config } from './config';
+import { ensureDir, pathExists, resolveAbsolute, toSafeFileName } from '../utils/fs';
+import { logger } from '../utils/logger';
+
+export type DownloadStatus = 'pending' | 'saved' | 'failed';
+
+export interface DownloadInfo {
+  id: string;
+  /** Name the server/page suggested */
+  suggestedFilename: string;
+  /** Name of the saved file (set once saved) */
+  fileName?: string;
+  /** Absolute path of the saved file (set once saved) */
+  path?: string;
+  /** Size in bytes (set once saved) */
+  size?: number;
+  /** URL the file was downloaded from */
+  url: string;
+  /** MIME type guessed from the file extension */
+  mimeType: string;
+  /** Tab that started the download */
+  tabId?: string;
+  status: DownloadStatus;
+  /** Why the download failed (canceled, network error, ...) */
+  failure?: string;
+  timestamp: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * DownloadManager class - saves downloads of one browser context at a time
+ */
+class DownloadManager {
+  private downloads: DownloadInfo[] = [];
+  private completions = new Map<string, Promise<DownloadInfo>>();
+  private startListeners = new Set<() => void>();
+  private takenPaths = new Set<string>();
+  private nextId = 1;
+  /** Downloads before this index were already returned by waitForNext() */
+  private nextWaitIndex = 0;
+
+  /**
+   * @param tabIdOf - Resolves the tab ID of a page (for download.tabId)
+   */
+  constructor(private readonly tabIdOf: (page: Page) => string | null) {}
+
+  /**
+   * Start capturing the downloads of a context (all current and future tabs)
+   */
+  attach(context: BrowserContext): void {
+    const watch = (page: Page) => {
+      page.on('download', (download) => this.capture(download, page));
+    };
+    context.pages().forEach(watch);
+    context.on('page', watch);
+  }
+
+  /**
+   * All downloads so far (oldest first, copies)
+   */
+  list(): DownloadInfo[] {
+    return this.downloads.map((download) => ({ ...download }));
+  }
+
+  /**
+   * Wait for the next download not returned by a previous call, then for it to be saved
+   *
+   * @param timeout - Timeout in ms (for the download to start and to be saved)
+   * @param trigger - Action that starts the download (run after the wait is set up)
+   * @returns The download (status "saved" or "failed")
+   * @throws Error if no download starts or finishes in time
+   */
+  async waitForNext(timeout: number, trigger?: () => Promise<void>): Promise<DownloadInfo> {
+    const deadline = Date.now() + timeout;
+    const index = this.nextWaitIndex;
+    const started = this.waitForStart(index, timeout);
+
+    // Don't leave an unhandled rejection behind if the trigger fails first
+    started.catch(() => {});
+
+    if (trigger) {
+      await trigger();
+    }
+
+    const download = await started;
+    this.nextWaitIndex = index + 1;
+
+    return await withTimeout(
+      this.completions.get(download.id)!,
+      Math.max(0, deadline - Date.now()),
+      `Download ${download.id} (${download.suggestedFilename}) did not finish within ${timeout}ms`
+    );
+  }
+
+  /**
+   * Forget all downloads (e.g. at launch) - saved files are kept
+   */
+  clear(): void {
+    this.downloads = [];
+    this.completions.clear();
+    this.takenPaths.clear();
+    this.nextWaitIndex = 0;
+  }
+
+  private capture(download: Download, page: Page): void {
+    const tabId = this.tabIdOf(page);
+    const info: DownloadInfo = {
+      id: `download-${this.nextId++}`,
+      suggestedFilename: download.suggestedFilename(),
+      url: download.url(),
+      mimeType: guessMimeType(download.suggestedFilename()),
+      ...(tabId && { tabId }),
+      status: 'pending',
+      timestamp: new Date().toISOString(),
+    };
+
+    this.downloads.push(info);
+    this.completions.set(info.id, this.save(download, info));
+    this.startListeners.forEach((listener) => listener());
+
+    logger.info(`Download started: ${info.id} ${info.suggestedFilename} from ${info.url}`);
+  }
+
+  private async save(download: Download, info: DownloadInfo): Promise<DownloadInfo> {
+    try {
+      const filePath = await this.reservePath(toSafeFileName(info.suggestedFilename, 'download'));
+      await download.saveAs(filePath);
+
+      info.fileName = path.basename(filePath);
+      info.path = filePath;
+      info.size = (await fs.promises.stat(filePath)).size;
+      info.status = 'saved';
+      logger.info(`Download saved: ${info.id} -> ${filePath} (${info.size} bytes)`);
+    } catch (error: any) {
+      info.status = 'failed';
+      info.failure = (await download.failure().catch(() => null)) ?? error.message;
+      logger.warn(`Download failed: ${info.id} ${info.suggestedFilename} - ${info.failure}`);
+    }
+
+    return { ...info };
+  }
+
+  /**
+   * Free path in the download directory: "report.csv", then "report-2.csv", ...
+   * Paths are reserved before checking the disk, so parallel downloads never share one.
+   */
+  private async reservePath(fileName: string): Promise<string> {
+    const dir = resolveAbsolute(config.downloadDir);
+    await ensureDir(dir);
+
+    const extension = path.extname(fileName);
+    const stem = fileName.substring(0, fileName.length - extension.length);
+
+    for (let n = 1; ; n++) {
+      const candidate = path.join(dir, n === 1 ? fileName : `${stem}-${n}${extension}`);
+      if (this.takenPaths.has(candidate)) continue;
+
+      this.takenPaths.add(candidate);
+      if (!(await pathExists(candidate))) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Resolve with the download at an index once it started
+   */
+  private waitForStart(index: number, timeout: number): Promise<DownloadInfo> {
+    if (this.downloads.length > index) {
+      return Promise.resolve(this.downloads[index]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const listener = () => {
+        if (this.downloads.length > index) {
+          cleanup();
+          resolve(this.downloads[index]);
+        }
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`No download started within ${timeout}ms`));
+      }, timeout);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.startListeners.delete(listener);
+      };
+
+      this.startListeners.add(listener);
+    });
+  }
+}
+
+/**
+ * Guess a MIME type from a file name (application/octet-stream if unknown)
+ */
+export function guessMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeout);
+  });
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Format a download as one line
+ *
+ * Example: download-1 report.csv (text/csv, 1532 bytes) from https://shop.test/export
+ */
+export function formatDownload(download: DownloadInfo): string {
+  const details = download.status === 'saved'
+    ? `${download.mimeType}, ${download.size} bytes`
+    : download.status === 'failed' ? `FAILED ${download.failure}` : 'in progress';
+  return `${download.id} ${download.fileName ?? download.suggestedFilename} (${details}) from ${download.url}`;
+}
+
+export { DownloadManager };
@@ -0,0 +1,147 @@
+/**
+ * Emulation - Build browser context options for device/environment emulation
+ *
+ * Combines an optional Playwright device preset (e.g. "iPhone 13") with
+ * explicit overrides (viewport, locale, timezone, color scheme, user agent,
+ * geolocation, permissions). Explicit options always win over the preset.
+ */
+
+import { devices, BrowserContextOptions, Page } from 'playwright';
+import { BrowserName } from './config';
+import { logger } from '../utils/logger';
+
+export type ColorScheme = 'light' | 'dark' | 'no-preference';
+
+export const COLOR_SCHEMES: readonly ColorScheme[] = ['light', 'dark', 'no-preference'];
+
+export interface EmulationOptions {
+  device?: string;
+  viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: ColorScheme;
+  userAgent?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  permissions?: string[];
+}
+
+/**
+ * Emulation settings actually in effect for a context
+ */
+export interface EmulationSettings {
+  device?: string;
+  viewport: { width: number; height: number } | null;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  locale: string;
+  timezoneId: string;
+  colorScheme: ColorScheme;
+  userAgent: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  permissions: string[];
+}
+
+// Viewport used when neither a device preset nor a viewport is given
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+/**
+ * Build context options from emulation options
+ *
+ * @param options - Emulation options
+ * @param browserName - Engine the context will run in
+ * @throws Error if the device preset is unknown
+ */
+export function buildContextOptions(
+  options: EmulationOptions,
+  browserName: BrowserName
+): BrowserContextOptions {
+  let contextOptions: BrowserContextOptions = { viewport: DEFAULT_VIEWPORT };
+
+  if (options.device) {
+    const preset = devices[options.device];
+    if (!preset) {
+      throw new Error(`Unknown device preset "${options.device}".${suggestDevices(options.device)}`);
+    }
+
+    // defaultBrowserType is informational - the engine is chosen by browserType
+    const { defaultBrowserType, ...presetOptions } = preset;
+    contextOptions = { ...presetOptions };
+
+    if (browserName === 'firefox' && contextOptions.isMobile) {
+      // Firefox does not support isMobile - keep viewport, user agent and touch only
+      logger.warn(`Device "${options.device}": isMobile is not supported in firefox, ignoring it`);
+      delete contextOptions.isMobile;
+    }
+  }
+
+  if (options.viewport) contextOptions.viewport = options.viewport;
+  if (options.locale) contextOptions.locale = options.locale;
+  if (options.timezoneId) contextOptions.timezoneId = options.timezoneId;
+  if (options.colorScheme) contextOptions.colorScheme = options.colorScheme;
+  if (options.userAgent) contextOptions.userAgent = options.userAgent;
+
+  const permissions = [...(options.permissions ?? [])];
+
+  if (options.geolocation) {
+    contextOptions.geolocation = options.geolocation;
+
+    // Geolocation is useless without the permission to read it
+    if (!permissions.includes('geolocation')) {
+      permissions.push('geolocation');
+    }
+  }
+
+  if (permissions.length > 0) {
+    contextOptions.permissions = permissions;
+  }
+
+  return contextOptions;
+}
+
+/**
+ * Read the emulation settings in effect for a page
+ * Values not set explicitly (locale, timezone, user agent) are read from the browser.
+ *
+ * @param page - Page of the emulated context
+ * @param options - Emulation options used to build the context
+ * @param contextOptions - Context options returned by buildContextOptions
+ */
+export async function readEmulationSettings(
+  page: Page,
+  options: EmulationOptions,
+  contextOptions: BrowserContextOptions
+): Promise<EmulationSettings> {
+  const fromBrowser = await page.evaluate(() => ({
+    locale: navigator.language,
+    timezoneId: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    userAgent: navigator.userAgent,
+    prefersDark: window.matchMedia('(prefers-color-scheme: dark)').matches,
+  }));
+
+  return {
+    ...(options.device && { device: options.device }),
+    viewport: page.viewportSize(),
+    deviceScaleFactor: contextOptions.deviceScaleFactor ?? 1,
+    isMobile: contextOptions.isMobile ?? false,
+    hasTouch: contextOptions.hasTouch ?? false,
+    locale: contextOptions.locale ?? fromBrowser.locale,
+    timezoneId: contextOptions.timezoneId ?? fromBrowser.timezoneId,
+    colorScheme: contextOptions.colorScheme ?? (fromBrowser.prefersDark ? 'dark' : 'light'),
+    userAgent: fromBrowser.userAgent,
+    ...(contextOptions.geolocation && { geolocation: contextOptions.geolocation }),
+    permissions: contextOptions.permissions ?? [],
+  };
+}
+
+/**
+ * Suggest device presets with a similar name (for error messages)
+ */
+function suggestDevices(name: string): string {
+  const needle = name.toLowerCase().replace(/\s+/g, '');
+  const matches = Object.keys(devices)
+    .filter((deviceName) => deviceName.toLowerCase().replace(/\s+/g, '').includes(needle.slice(0, 4)))
+    .slice(0, 5);
+
+  return matches.length > 0 ? ` Did you mean: ${matches.join(', ')}?` : '';
+}
@@ -0,0 +1,199 @@
+/**
+ * Frames - Targeting elements inside iframes
+ *
+ * Element operations search the top page by default. A frame target moves
+ * the search into an iframe (payment widgets, embedded editors, login
+ * frames), identified in one of three ways:
+ *   { selector: '#checkout-frame' }                 // iframe element in the top page
+ *   { selector: ['#checkout-frame', 'iframe.card'] } // nested iframes, outermost first
+ *   { name: 'payment' }                              // frame name (name attribute / window.name)
+ *   { url: '**\/widget/card*' }                      // frame URL (glob or RegExp)
+ *
+ * Selector chains resolve lazily like locators (they survive frame reloads);
+ * name and URL targets are looked up among the page's frames on every call.
+ */
+
+import { Frame, Page } from 'playwright';
+import { LocatorRoot } from './locatorSpec';
+import { UrlPattern, describeUrlPattern, matchesUrlPattern, parseUrlPattern } from '../utils/patterns';
+
+export type FrameTarget =
+  | { selector: string | string[] }
+  | { name: string }
+  | { url: UrlPattern };
+
+export interface FrameInfo {
+  /** Frame name (empty if the iframe has none) */
+  name: string;
+  url: string;
+  /** Selector of the iframe element within its parent (by id or name, if it has one) */
+  selector?: string;
+  children: FrameInfo[];
+}
+
+/**
+ * Resolve a frame target to something locators can be created from
+ *
+ * @param page - Top page
+ * @param target - Frame target
+ * @throws Error if no frame matches a name/URL target
+ */
+export function resolveFrameRoot(page: Page, target: FrameTarget): LocatorRoot {
+  if ('selector' in target) {
+    const chain = Array.isArray(target.selector) ? target.selector : [target.selector];
+    let frameLocator = page.locator(chain[0]).contentFrame();
+
+    for (const selector of chain.slice(1)) {
+      frameLocator = frameLocator.locator(selector).contentFrame();
+    }
+
+    return frameLocator;
+  }
+
+  const frames = page.frames().filter((frame) => frame !== page.mainFrame());
+  const frame = 'name' in target
+    ? frames.find((candidate) => candidate.name() === target.name)
+    : frames.find((candidate) => matchesUrlPattern(candidate.url(), target.url));
+
+  if (!frame) {
+    const known = frames.map((candidate) => `${candidate.name() ? `"${candidate.name()}" ` : ''}${candidate.url()}`);
+    throw new Error(
+      `No ${describeFrame(target)} in the page. Frames: ${known.length > 0 ? known.join(', ') : 'none'}`
+    );
+  }
+
+  return frame;
+}
+
+/**
+ * Describe a frame target for logs and error messages
+ *
+ * Example: frame "#checkout-frame >> iframe.card"
+ */
+export function describeFrame(target: FrameTarget): string {
+  if ('selector' in target) {
+    const chain = Array.isArray(target.selector) ? target.selector : [target.selector];
+    return `frame "${chain.join(' >> ')}"`;
+  }
+
+  if ('name' in target) {
+    return `frame named "${target.name}"`;
+  }
+
+  return `frame with URL ${describeUrlPattern(target.url)}`;
+}
+
+/**
+ * Validate untrusted input (e.g. MCP arguments) as a frame target
+ * A plain string (or string array) is an iframe selector (chain); URL strings may be globs or "/regex/flags".
+ *
+ * @throws Error describing what is wrong
+ */
+export function parseFrameTarget(value: unknown): FrameTarget {
+  if (typeof value === 'string') {
+    if (!value) {
+      throw new Error('Frame selector must not be empty');
+    }
+    return { selector: value };
+  }
+
+  if (Array.isArray(value)) {
+    return parseFrameTarget({ selector: value });
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new Error('Frame must be an iframe selector (chain) or an object with selector, name or url');
+  }
+
+  const spec = value as Record<string, unknown>;
+  const keys = (['selector', 'name', 'url'] as const).filter((key) => spec[key] !== undefined);
+
+  if (keys.length !== 1) {
+    throw new Error(`Frame must have exactly one of: selector, name, url (got ${keys.join(', ') || 'none'})`);
+  }
+
+  if (spec.selector !== undefined) {
+    const chain = Array.isArray(spec.selector) ? spec.selector : [spec.selector];
+    if (chain.length === 0 || chain.some((selector) => typeof selector !== 'string' || !selector)) {
+      throw new Error('Frame "selector" must be a non-empty string or array of strings');
+    }
+    return { selector: spec.selector as string | string[] };
+  }
+
+  if (spec.name !== undefined) {
+    if (typeof spec.name !== 'string' || !spec.name) {
+      throw new Error('Frame "name" must be a non-empty string');
+    }
+    return { name: spec.name };
+  }
+
+  if (typeof spec.url !== 'string') {
+    throw new Error('Frame "url" must be a string');
+  }
+  return { url: parseUrlPattern(spec.url) };
+}
+
+/**
+ * Frame tree of a page, starting at the main frame
+ */
+export async function getFrameTree(page: Page): Promise<FrameInfo> {
+  return await describeFrameNode(page.mainFrame());
+}
+
+async function describeFrameNode(frame: Frame): Promise<FrameInfo> {
+  const children = await Promise.all(
+    frame.childFrames()
+      .filter((child) => !child.isDetached())
+      .map((child) => describeFrameNode(child))
+  );
+
+  const selector = frame.parentFrame() ? await iframeSelector(frame) : undefined;
+
+  return {
+    name: frame.name(),
+    url: frame.url(),
+    ...(selector && { selector }),
+    children,
+  };
+}
+
+/**
+ * Selector of a frame's iframe element by id or name attribute (null if it has neither)
+ */
+async function iframeSelector(frame: Frame): Promise<string | null> {
+  try {
+    const element = await frame.frameElement();
+    const selector = await element.evaluate((node) => {
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+      if (el.id) return `${tag}#${CSS.escape(el.id)}`;
+      const name = el.getAttribute('name');
+      return name ? `${tag}[name="${name.replace(/"/g, '\\"')}"]` : null;
+    });
+    await element.dispose();
+    return selector;
+  } catch {
+    // Frame detached while we were looking
+    return null;
+  }
+}
+
+/**
+ * Format a frame tree as indented lines
+ *
+ * Example:
+ *   - main https://shop.test/checkout
+ *     - "payment" iframe#card-frame https://pay.test/widget
+ */
+export function formatFrameTree(tree: FrameInfo): string {
+  const lines: string[] = [];
+
+  const visit = (node: FrameInfo, depth: number) => {
+    const label = depth === 0 ? 'main' : [node.name && `"${node.name}"`, node.selector].filter(Boolean).join(' ') || '(unnamed)';
+    lines.push(`${'  '.repeat(depth)}- ${label} ${node.url}`);
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+
+  visit(tree, 0);
+  return lines.join('\n');
+}
@@ -0,0 +1,185 @@
+/**
+ * LocatorSpec - Semantic element locators resolved to Playwright Locators
+ *
+ * Follows the locator priority of docs/actionability.md: role, label,
+ * placeholder, text and test id first, CSS as fallback. A plain string is
+ * still accepted and treated as a Playwright selector (CSS, text=, etc.).
+ *
+ * Examples:
+ *   { role: 'button', name: 'Login' }
+ *   { label: 'Email' }
+ *   { testId: 'cart-badge' }
+ *   { role: 'link', name: 'Details', within: { css: '.product-card' }, nth: 0 }
+ *   { ref: 'e5' }  // ref from BrowserManager.snapshot()
+ */
+
+import { Locator, Page } from 'playwright';
+
+export type AriaRole = Parameters<Page['getByRole']>[0];
+
+interface LocatorSpecBase {
+  /** Pick the n-th match (0-based, -1 = last) */
+  nth?: number;
+  /** Parent element to search within */
+  within?: LocatorSpec;
+}
+
+export type LocatorSpec =
+  | string
+  | (LocatorSpecBase & { css: string })
+  | (LocatorSpecBase & { role: AriaRole; name?: string; exact?: boolean })
+  | (LocatorSpecBase & { label: string; exact?: boolean })
+  | (LocatorSpecBase & { placeholder: string; exact?: boolean })
+  | (LocatorSpecBase & { text: string; exact?: boolean })
+  | (LocatorSpecBase & { testId: string })
+  | (LocatorSpecBase & { ref: string });
+
+/**
+ * Anything locators can be created from (page, frame, frame locator, parent locator)
+ */
+export type LocatorRoot = Pick<
+  Page,
+  'locator' | 'getByRole' | 'getByLabel' | 'getByPlaceholder' | 'getByText' | 'getByTestId'
+>;
+
+/** Strategy keys - exactly one per spec */
+const STRATEGY_KEYS = ['css', 'role', 'label', 'placeholder', 'text', 'testId', 'ref'] as const;
+
+/**
+ * Resolve a locator spec to a Playwright Locator
+ *
+ * @param root - Page (or frame / parent locator) to search in
+ * @param spec - Locator spec
+ * @param resolveRef - Resolves snapshot refs (refs are owned by BrowserManager)
+ * @throws Error if the spec uses a ref and no resolver is given
+ */
+export function resolveLocator(
+  root: LocatorRoot,
+  spec: LocatorSpec,
+  resolveRef?: (ref: string) => Locator
+): Locator {
+  if (typeof spec === 'string') {
+    return root.locator(spec);
+  }
+
+  const scope: LocatorRoot = spec.within ? resolveLocator(root, spec.within, resolveRef) : root;
+  let locator: Locator;
+
+  if ('ref' in spec) {
+    if (!resolveRef) {
+      throw new Error(`Cannot resolve ref "${spec.ref}" outside of a browser session`);
+    }
+    locator = resolveRef(spec.ref);
+  } else if ('css' in spec) {
+    locator = scope.locator(spec.css);
+  } else if ('role' in spec) {
+    locator = scope.getByRole(spec.role, {
+      ...(spec.name !== undefined && { name: spec.name }),
+      ...(spec.exact !== undefined && { exact: spec.exact }),
+    });
+  } else if ('label' in spec) {
+    locator = scope.getByLabel(spec.label, { exact: spec.exact });
+  } else if ('placeholder' in spec) {
+    locator = scope.getByPlaceholder(spec.placeholder, { exact: spec.exact });
+  } else if ('text' in spec) {
+    locator = scope.getByText(spec.text, { exact: spec.exact });
+  } else {
+    locator = scope.getByTestId(spec.testId);
+  }
+
+  return spec.nth !== undefined ? locator.nth(spec.nth) : locator;
+}
+
+/**
+ * Describe a locator spec for logs and error messages
+ *
+ * Example: role=button[name="Login"] >> nth=0
+ */
+export function describeLocator(spec: LocatorSpec): string {
+  if (typeof spec === 'string') {
+    return `selector "${spec}"`;
+  }
+
+  let description: string;
+
+  if ('ref' in spec) {
+    description = `ref ${spec.ref}`;
+  } else if ('css' in spec) {
+    description = `css "${spec.css}"`;
+  } else if ('role' in spec) {
+    description = `role=${spec.role}${spec.name !== undefined ? `[name="${spec.name}"]` : ''}`;
+  } else if ('label' in spec) {
+    description = `label "${spec.label}"`;
+  } else if ('placeholder' in spec) {
+    description = `placeholder "${spec.placeholder}"`;
+  } else if ('text' in spec) {
+    description = `text "${spec.text}"`;
+  } else {
+    description = `testId "${spec.testId}"`;
+  }
+
+  if (spec.within) {
+    description = `${describeLocator(spec.within)} >> ${description}`;
+  }
+
+  if (spec.nth !== undefined) {
+    description += ` >> nth=${spec.nth}`;
+  }
+
+  return description;
+}
+
+/**
+ * Validate untrusted input (e.g. MCP arguments) as a locator spec
+ *
+ * @param value - Value to validate
+ * @returns The value typed as LocatorSpec
+ * @throws Error describing what is wrong
+ */
+export function parseLocatorSpec(value: unknown): LocatorSpec {
+  if (typeof value === 'string') {
+    if (!value) {
+      throw new Error('Locator string must not be empty');
+    }
+    return value;
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Locator must be a selector string or an object');
+  }
+
+  const spec = value as Record<string, unknown>;
+  const strategies = STRATEGY_KEYS.filter((key) => spec[key] !== undefined);
+
+  if (strategies.length !== 1) {
+    throw new Error(
+      `Locator must have exactly one of: ${STRATEGY_KEYS.join(', ')} (got ${strategies.join(', ') || 'none'})`
+    );
+  }
+
+  const strategy = strategies[0];
+  if (typeof spec[strategy] !== 'string' || !spec[strategy]) {
+    throw new Error(`Locator "${strategy}" must be a non-empty string`);
+  }
+
+  if (spec.name !== undefined && (strategy !== 'role' || typeof spec.name !== 'string')) {
+    throw new Error('Locator "name" must be a string and is only valid with "role"');
+  }
+
+  if (spec.exact !== undefined && typeof spec.exact !== 'boolean') {
+    throw new Error('Locator "exact" must be a boolean');
+  }
+
+  if (spec.nth !== undefined && !Number.isInteger(spec.nth)) {
+    throw new Error('Locator "nth" must be an integer');
+  }
+
+  if (spec.within !== undefined) {
+    if (strategy === 'ref') {
+      throw new Error('Locator "ref" cannot be combined with "within"');
+    }
+    parseLocatorSpec(spec.within);
+  }
+
+  return value as LocatorSpec;
+}
@@ -0,0 +1,234 @@
+/**
+ * NetworkLog - Bounded log of the requests made by a browser context
+ *
+ * Every request of every tab is recorded with method, URL, resource type,
+ * status, timing and failure text; only the most recent entries are kept
+ * (ring buffer). Entries are updated in place as the response arrives and
+ * the request finishes or fails. Requests get IDs (req-1, req-2, ...) that
+ * can be used to fetch the response body while the browser still has it.
+ */
+
+import { BrowserContext, Request } from 'playwright';
+import { RingBuffer } from '../utils/ringBuffer';
+import { logger } from '../utils/logger';
+
+export interface NetworkEntry {
+  id: string;
+  method: string;
+  url: string;
+  resourceType: string;
+  /** HTTP status (missing until the response arrives, or if the request failed) */
+  status?: number;
+  statusText?: string;
+  /** Epoch ms when the request was issued */
+  startTime: number;
+  /** Time until the request finished or failed */
+  durationMs?: number;
+  /** Network error text (e.g. net::ERR_CONNECTION_REFUSED) */
+  failure?: string;
+  /** Request still in flight */
+  pending: boolean;
+}
+
+export interface NetworkFilter {
+  /** Minimum status (inclusive) - requests without status are excluded */
+  statusMin?: number;
+  /** Maximum status (inclusive) - requests without status are excluded */
+  statusMax?: number;
+  /** Case-insensitive substring of the URL */
+  urlContains?: string;
+  /** Playwright resource type (document, xhr, fetch, script, image, ...) */
+  resourceType?: string;
+  /** Only failed requests (network error or status >= 400) */
+  failed?: boolean;
+  /** Only entries recorded since the previous call that used sinceLastCall */
+  sinceLastCall?: boolean;
+  /** Return at most this many entries (the most recent ones) */
+  limit?: number;
+}
+
+export interface NetworkLogResult {
+  entries: NetworkEntry[];
+  /** Entries matching the filter before applying the limit */
+  matched: number;
+  /** Entries dropped from the buffer since it was created or cleared */
+  dropped: number;
+}
+
+export interface ResponseBody {
+  entry: NetworkEntry;
+  contentType: string;
+  encoding: 'utf8' | 'base64';
+  body: string;
+  /** Body was cut to the size limit */
+  truncated: boolean;
+  size: number;
+}
+
+// Largest body returned by getResponseBody (keeps agent context small)
+const MAX_BODY_BYTES = 100_000;
+
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b|graphql/i;
+
+/**
+ * NetworkLog class - records requests of one browser context at a time
+ */
+class NetworkLog {
+  private buffer: RingBuffer<NetworkEntry>;
+  private requests = new WeakMap<NetworkEntry, Request>();
+  private entriesByRequest = new WeakMap<Request, NetworkEntry>();
+  private nextId = 1;
+  private lastReadSeq = 0;
+
+  /**
+   * @param capacity - Number of requests kept
+   */
+  constructor(capacity: number) {
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  /**
+   * Start recording the requests of a context (all current and future tabs)
+   */
+  attach(context: BrowserContext): void {
+    context.on('request', (request) => {
+      const entry: NetworkEntry = {
+        id: `req-${this.nextId++}`,
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+        startTime: Date.now(),
+        pending: true,
+      };
+
+      this.requests.set(entry, request);
+      this.entriesByRequest.set(request, entry);
+      this.buffer.push(entry);
+    });
+
+    context.on('response', (response) => {
+      const entry = this.entriesByRequest.get(response.request());
+      if (entry) {
+        entry.status = response.status();
+        entry.statusText = response.statusText();
+      }
+    });
+
+    context.on('requestfinished', (request) => this.finish(request));
+
+    context.on('requestfailed', (request) => {
+      const failure = request.failure()?.errorText ?? 'failed';
+      this.finish(request, failure);
+      logger.debug(`Request failed: ${request.method()} ${request.url()} - ${failure}`);
+    });
+  }
+
+  /**
+   * Entries matching a filter (oldest first)
+   */
+  query(filter: NetworkFilter = {}): NetworkLogResult {
+    const afterSeq = filter.sinceLastCall ? this.lastReadSeq : 0;
+    if (filter.sinceLastCall) {
+      this.lastReadSeq = this.buffer.lastSeq;
+    }
+
+    const urlNeedle = filter.urlContains?.toLowerCase();
+    const matching = this.buffer.toArray(afterSeq).filter((entry) => {
+      if (filter.statusMin !== undefined && (entry.status === undefined || entry.status < filter.statusMin)) return false;
+      if (filter.statusMax !== undefined && (entry.status === undefined || entry.status > filter.statusMax)) return false;
+      if (urlNeedle && !entry.url.toLowerCase().includes(urlNeedle)) return false;
+      if (filter.resourceType && entry.resourceType !== filter.resourceType) return false;
+      if (filter.failed && !isFailed(entry)) return false;
+      return true;
+    });
+
+    const entries = filter.limit !== undefined ? matching.slice(-filter.limit) : matching;
+
+    return {
+      entries: entries.map((entry) => ({ ...entry })),
+      matched: matching.length,
+      dropped: this.buffer.dropped,
+    };
+  }
+
+  /**
+   * Get the response body of a logged request
+   * Text bodies are returned as UTF-8, binary bodies as base64; both cut to 100 kB.
+   *
+   * @param requestId - Request ID (req-N)
+   * @throws Error if the request is unknown/evicted, has no response, or the body is gone
+   */
+  async getResponseBody(requestId: string): Promise<ResponseBody> {
+    const entry = this.buffer.toArray().find((candidate) => candidate.id === requestId);
+    const request = entry && this.requests.get(entry);
+
+    if (!entry || !request) {
+      throw new Error(`Request "${requestId}" is not in the network log (unknown or evicted)`);
+    }
+
+    const response = await request.response();
+    if (!response) {
+      throw new Error(`Request ${requestId} has no response${entry.failure ? ` (${entry.failure})` : ''}`);
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await response.body();
+    } catch (error: any) {
+      throw new Error(`Response body of ${requestId} is no longer available: ${error.message}`, { cause: error });
+    }
+
+    const contentType = (await response.headerValue('content-type')) ?? '';
+    const isText = TEXT_CONTENT_TYPE.test(contentType);
+    const truncated = buffer.length > MAX_BODY_BYTES;
+    const slice = truncated ? buffer.subarray(0, MAX_BODY_BYTES) : buffer;
+
+    return {
+      entry: { ...entry },
+      contentType,
+      encoding: isText ? 'utf8' : 'base64',
+      body: slice.toString(isText ? 'utf8' : 'base64'),
+      truncated,
+      size: buffer.length,
+    };
+  }
+
+  /**
+   * Forget all entries (e.g. at launch)
+   */
+  clear(): void {
+    this.buffer.clear();
+    this.lastReadSeq = this.buffer.lastSeq;
+  }
+
+  private finish(request: Request, failure?: string): void {
+    const entry = this.entriesByRequest.get(request);
+    if (!entry) return;
+
+    entry.pending = false;
+    entry.durationMs = Date.now() - entry.startTime;
+    if (failure) {
+      entry.failure = failure;
+    }
+  }
+}
+
+/**
+ * Failed = network error or HTTP error status
+ */
+export function isFailed(entry: NetworkEntry): boolean {
+  return entry.failure !== undefined || (entry.status !== undefined && entry.status >= 400);
+}
+
+/**
+ * Format an entry as one line
+ *
+ * Example: req-12 POST 500 https://shop.test/api/cart (fetch, 84ms)
+ */
+export function formatNetworkEntry(entry: NetworkEntry): string {
+  const status = entry.failure ? `FAILED ${entry.failure}` : entry.status ?? (entry.pending ? 'pending' : '-');
+  const timing = entry.durationMs !== undefined ? `, ${entry.durationMs}ms` : '';
+  return `${entry.id} ${entry.method} ${status} ${entry.url} (${entry.resourceType}${timing})`;
+}
+
+export { NetworkLog };
@@ -0,0 +1,224 @@
+/**
+ * PageManager - Registry of the pages (tabs) open in a browser context
+ *
+ * Every page gets a stable ID (tab-1, tab-2, ...) for its whole lifetime.
+ * Pages opened by the app itself (target=_blank links, window.open popups)
+ * are registered automatically through the context `page` event.
+ * One page is always the "active" one - the page BrowserManager acts on.
+ */
+
+import { BrowserContext, Page } from 'playwright';
+import { config } from './config';
+import { logger } from '../utils/logger';
+
+export interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/**
+ * PageManager class - tracks pages of a single browser context
+ */
+class PageManager {
+  private pages: Map<string, Page> = new Map();
+  private activePageId: string | null = null;
+  private nextId = 1;
+
+  /**
+   * Start tracking pages of a context
+   * Pages already open in the context are registered in creation order,
+   * pages opened later (popups, new tabs) are registered via the `page` event.
+   *
+   * @param context - Browser context to track
+   */
+  attach(context: BrowserContext): void {
+    for (const page of context.pages()) {
+      this.registerPage(page);
+    }
+
+    context.on('page', (page) => {
+      const id = this.registerPage(page);
+      logger.info(`New tab detected: ${id}`);
+    });
+  }
+
+  /**
+   * Register a page and return its ID
+   * Idempotent: registering an already known page returns the existing ID.
+   * The first registered page becomes the active page.
+   *
+   * @param page - Page to register
+   * @returns Stable tab ID
+   */
+  registerPage(page: Page): string {
+    const existingId = this.findId(page);
+    if (existingId) {
+      return existingId;
+    }
+
+    const id = `tab-${this.nextId++}`;
+    this.pages.set(id, page);
+
+    page.setDefaultTimeout(config.defaultTimeoutMs);
+    page.on('close', () => this.handlePageClosed(id));
+
+    if (!this.activePageId) {
+      this.activePageId = id;
+    }
+
+    logger.debug(`Registered tab ${id}`);
+    return id;
+  }
+
+  /**
+   * Open a new page in the context and register it
+   *
+   * @param context - Browser context to open the page in
+   * @returns ID of the new tab
+   */
+  async createPage(context: BrowserContext): Promise<string> {
+    const page = await context.newPage();
+    return this.registerPage(page);
+  }
+
+  /**
+   * Close a page by ID
+   *
+   * @param pageId - Tab ID to close
+   * @throws Error if the tab does not exist
+   */
+  async closePage(pageId: string): Promise<void> {
+    const page = this.requirePage(pageId);
+    await page.close();
+    // The close event may fire after close() resolves - unregister eagerly
+    this.handlePageClosed(pageId);
+  }
+
+  /**
+   * Get the active page
+   *
+   * @returns Active page or null if no pages are registered
+   */
+  getActivePage(): Page | null {
+    return this.activePageId ? this.pages.get(this.activePageId) ?? null : null;
+  }
+
+  /**
+   * Get the ID of the active page
+   */
+  getActivePageId(): string | null {
+    return this.activePageId;
+  }
+
+  /**
+   * Make a page the active one and bring it to front
+   *
+   * @param pageId - Tab ID to activate
+   * @throws Error if the tab does not exist
+   */
+  async setActivePage(pageId: string): Promise<void> {
+    const page = this.requirePage(pageId);
+    this.activePageId = pageId;
+    await page.bringToFront();
+  }
+
+  /**
+   * Get a page by ID
+   *
+   * @returns Page or null if the tab does not exist
+   */
+  getPage(pageId: string): Page | null {
+    return this.pages.get(pageId) ?? null;
+  }
+
+  /**
+   * Get the ID of a registered page
+   *
+   * @returns Tab ID or null if the page is not registered
+   */
+  findId(page: Page): string | null {
+    for (const [id, registered] of this.pages.entries()) {
+      if (registered === page) {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Number of open pages
+   */
+  count(): number {
+    return this.pages.size;
+  }
+
+  /**
+   * List all open pages in creation order
+   */
+  async listPages(): Promise<TabInfo[]> {
+    const tabs: TabInfo[] = [];
+
+    for (const [id, page] of this.pages.entries()) {
+      let title = '';
+      try {
+        title = await page.title();
+      } catch {
+        // Page may be navigating or closing - title is informational only
+      }
+
+      tabs.push({
+        id,
+        url: page.url(),
+        title,
+        active: id === this.activePageId,
+      });
+    }
+
+    return tabs;
+  }
+
+  /**
+   * Forget all pages (after the context was closed)
+   */
+  clear(): void {
+    this.pages.clear();
+    this.activePageId = null;
+    this.nextId = 1;
+  }
+
+  /**
+   * Get a page by ID or throw
+   */
+  private requirePage(pageId: string): Page {
+    const page = this.pages.get(pageId);
+    if (!page) {
+      const known = Array.from(this.pages.keys()).join(', ') || 'none';
+      throw new Error(`Unknown tab "${pageId}". Open tabs: ${known}`);
+    }
+    return page;
+  }
+
+  /**
+   * Unregister a closed page, moving focus to the most recent remaining tab
+   */
+  private handlePageClosed(pageId: string): void {
+    if (!this.pages.delete(pageId)) {
+      return; // Already unregistered
+    }
+
+    logger.debug(`Tab ${pageId} closed`);
+
+    if (this.activePageId === pageId) {
+      const remaining = Array.from(this.pages.keys());
+      this.activePageId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+
+      if (this.activePageId) {
+        logger.info(`Active tab closed, switched to ${this.activePageId}`);
+      }
+    }
+  }
+}
+
+export { PageManager };
@@ -0,0 +1,268 @@
+/**
+ * RouteManager - Network request mocking for a browser context
+ *
+ * Routes are installed on the context (not a single page), so they apply to
+ * every tab, including popups. Each route matches a URL glob or regex and
+ * does one thing with matching requests:
+ * - fulfill: answer with a status, headers and a body (inline or fixture file)
+ * - abort: fail the request with a network error code
+ * - continue: send the request on with headers added/overridden/removed
+ *
+ * Routes get IDs (route-1, route-2, ...) and count how often they matched.
+ * When several routes match a request, the most recently added one wins.
+ */
+
+import { BrowserContext, Request, Route } from 'playwright';
+import { UrlPattern, describeUrlPattern } from '../utils/patterns';
+import { logger } from '../utils/logger';
+
+export type RouteActionType = 'fulfill' | 'abort' | 'continue';
+
+export const ROUTE_ACTION_TYPES: readonly RouteActionType[] = ['fulfill', 'abort', 'continue'];
+
+export const ABORT_ERROR_CODES = [
+  'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse',
+  'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused',
+  'connectionreset', 'internetdisconnected', 'namenotresolved', 'timedout', 'failed',
+] as const;
+
+export type AbortErrorCode = (typeof ABORT_ERROR_CODES)[number];
+
+export type RouteAction =
+  | {
+      type: 'fulfill';
+      status?: number;
+      headers?: Record<string, string>;
+      contentType?: string;
+      /** Inline body */
+      body?: string;
+      /** File to send as body, relative to config.fixturesDir (content type guessed from extension) */
+      fixture?: string;
+    }
+  | { type: 'abort'; errorCode?: AbortErrorCode }
+  | {
+      type: 'continue';
+      /** Headers to add or override */
+      headers?: Record<string, string>;
+      /** Header names to remove (case-insensitive) */
+      removeHeaders?: string[];
+    };
+
+export interface RouteSpec {
+  url: UrlPattern;
+  action: RouteAction;
+  /** Remove the route after it matched this many times (default: unlimited) */
+  times?: number;
+}
+
+export interface RouteInfo {
+  id: string;
+  url: string;
+  action: RouteActionType;
+  /** Short description of what the route does (e.g. "fulfill 500 from fixture errors/500.json") */
+  description: string;
+  hits: number;
+  times?: number;
+}
+
+interface InstalledRoute {
+  id: string;
+  spec: RouteSpec;
+  hits: number;
+  handler: (route: Route, request: Request) => Promise<void>;
+}
+
+/**
+ * RouteManager class - tracks routes installed on the current context
+ */
+class RouteManager {
+  private routes: Map<string, InstalledRoute> = new Map();
+  private context: BrowserContext | null = null;
+  private nextId = 1;
+
+  /**
+   * Install all known routes on a (new) context
+   * Routes belong to the session: they survive context re-creation (e.g. loading storage state).
+   *
+   * @param context - Context to route
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    this.context = context;
+
+    for (const route of this.routes.values()) {
+      await context.route(route.spec.url, route.handler);
+    }
+  }
+
+  /**
+   * Add a route to the context
+   *
+   * @param spec - URL pattern, action and optional match limit
+   * @returns Info of the new route
+   */
+  async add(spec: RouteSpec): Promise<RouteInfo> {
+    const context = this.requireContext();
+    const id = `route-${this.nextId++}`;
+
+    const installed: InstalledRoute = {
+      id,
+      spec,
+      hits: 0,
+      handler: async (route, request) => {
+        if (spec.times !== undefined && installed.hits >= spec.times) {
+          // Used up, but the unroute below has not finished yet - let the request through
+          await route.fallback().catch(() => {});
+          return;
+        }
+
+        installed.hits++;
+        logger.debug(`Route ${id} matched ${request.method()} ${request.url()}`);
+
+        if (spec.times !== undefined && installed.hits >= spec.times) {
+          // Last allowed match - drop the route (after handling this request)
+          this.routes.delete(id);
+          this.context?.unroute(spec.url, installed.handler).catch(() => {});
+        }
+
+        try {
+          await handleRoute(route, request, spec.action);
+        } catch (error: any) {
+          // Playwright does not await route handlers - a throw here would be an unhandled rejection
+          logger.warn(`Route ${id} failed for ${request.method()} ${request.url()}: ${error.message}`);
+          await route.abort('failed').catch(() => {});
+        }
+      },
+    };
+
+    await context.route(spec.url, installed.handler);
+    this.routes.set(id, installed);
+
+    logger.info(`Route added: ${id} ${describeUrlPattern(spec.url)} -> ${describeAction(spec.action)}`);
+    return this.toInfo(installed);
+  }
+
+  /**
+   * Remove a route by ID
+   *
+   * @throws Error if the route does not exist
+   */
+  async remove(routeId: string): Promise<void> {
+    const installed = this.routes.get(routeId);
+    if (!installed) {
+      const known = Array.from(this.routes.keys());
+      throw new Error(`Route "${routeId}" not found. Routes: ${known.length > 0 ? known.join(', ') : 'none'}`);
+    }
+
+    this.routes.delete(routeId);
+    await this.context?.unroute(installed.spec.url, installed.handler);
+    logger.info(`Route removed: ${routeId}`);
+  }
+
+  /**
+   * Remove all routes
+   *
+   * @returns Number of routes removed
+   */
+  async removeAll(): Promise<number> {
+    const routeIds = Array.from(this.routes.keys());
+
+    for (const routeId of routeIds) {
+      await this.remove(routeId);
+    }
+
+    return routeIds.length;
+  }
+
+  /**
+   * Routes in the order they were added
+   */
+  list(): RouteInfo[] {
+    return Array.from(this.routes.values()).map((installed) => this.toInfo(installed));
+  }
+
+  /**
+   * Forget all routes and the context (context is closing)
+   */
+  clear(): void {
+    this.routes.clear();
+    this.context = null;
+  }
+
+  private requireContext(): BrowserContext {
+    if (!this.context) {
+      throw new Error('No browser context to add routes to');
+    }
+    return this.context;
+  }
+
+  private toInfo(installed: InstalledRoute): RouteInfo {
+    return {
+      id: installed.id,
+      url: typeof installed.spec.url === 'string' ? installed.spec.url : installed.spec.url.toString(),
+      action: installed.spec.action.type,
+      description: describeAction(installed.spec.action),
+      hits: installed.hits,
+      ...(installed.spec.times !== undefined && { times: installed.spec.times }),
+    };
+  }
+}
+
+/**
+ * Apply a route action to an intercepted request
+ */
+async function handleRoute(route: Route, request: Request, action: RouteAction): Promise<void> {
+  switch (action.type) {
+    case 'fulfill':
+      await route.fulfill({
+        status: action.status ?? 200,
+        headers: action.headers,
+        contentType: action.contentType,
+        ...(action.fixture ? { path: action.fixture } : { body: action.body ?? '' }),
+      });
+      return;
+
+    case 'abort':
+      await route.abort(action.errorCode ?? 'failed');
+      return;
+
+    case 'continue': {
+      const headers = { ...request.headers(), ...lowerCaseKeys(action.headers ?? {}) };
+      for (const name of action.removeHeaders ?? []) {
+        delete headers[name.toLowerCase()];
+      }
+
+      // fallback() instead of continue(): older routes matching the same URL still get their turn
+      await route.fallback({ headers });
+      return;
+    }
+  }
+}
+
+/**
+ * Describe a route action for logs and route lists
+ */
+export function describeAction(action: RouteAction): string {
+  switch (action.type) {
+    case 'fulfill': {
+      const source = action.fixture
+        ? ` from fixture ${action.fixture}`
+        : action.body ? ` with ${action.body.length} byte body` : '';
+      return `fulfill ${action.status ?? 200}${source}`;
+    }
+    case 'abort':
+      return `abort (${action.errorCode ?? 'failed'})`;
+    case 'continue': {
+      const changes = [
+        ...Object.keys(action.headers ?? {}).map((name) => `set ${name}`),
+        ...(action.removeHeaders ?? []).map((name) => `remove ${name}`),
+      ];
+      return `continue${changes.length > 0 ? ` (${changes.join(', ')})` : ''}`;
+    }
+  }
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+export { RouteManager };
@@ -0,0 +1,217 @@
+/**
+ * Screenshots - Image format, region, masking and scaling options
+ *
+ * Screenshots are PNG unless JPEG is requested (explicitly or by a .jpg /
+ * .jpeg file name). On request, sensitive elements - password fields and the
+ * selectors in config.screenshotMaskSelectors - are covered with a solid box
+ * so screenshots can be shared and attached to reports without leaking
+ * credentials or personal data.
+ *
+ * Screenshots handed to agents can be scaled down to a maximum size and a
+ * byte budget first. Scaling runs in a throwaway context of the session's
+ * browser (canvas), so it needs no image library and never touches the
+ * pages under test.
+ */
+
+import * as path from 'path';
+import { Browser } from 'playwright';
+import { config } from './config';
+import { ImageSize, fitWithin, readImageSize } from '../utils/image';
+
+export type ScreenshotType = 'png' | 'jpeg';
+
+export const SCREENSHOT_TYPES: readonly ScreenshotType[] = ['png', 'jpeg'];
+
+/**
+ * Region to capture, in CSS pixels (relative to the page with fullPage, otherwise the viewport)
+ */
+export interface ScreenshotClip {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Limits for screenshots returned to agents (undefined: no limit)
+ */
+export interface ImageLimits {
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Maximum size of the image data in bytes (base64 is about 4/3 of it) */
+  maxBytes?: number;
+}
+
+export interface FittedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  /** Size of the captured image */
+  original: ImageSize;
+  scaled: boolean;
+}
+
+// Attempts to get below the byte budget, each scaling down by the remaining ratio
+const MAX_BUDGET_ATTEMPTS = 5;
+
+/** Always masked when masking of sensitive elements is turned on */
+export const PASSWORD_SELECTOR = 'input[type="password"]';
+
+/** Default overlay color of masked elements */
+export const DEFAULT_MASK_COLOR = '#000000';
+
+/**
+ * Image type of a screenshot: the requested type, else from the file extension, else PNG
+ *
+ * @throws Error if the type is unknown
+ */
+export function resolveScreenshotType(type: ScreenshotType | undefined, filePath?: string): ScreenshotType {
+  if (type !== undefined) {
+    if (!SCREENSHOT_TYPES.includes(type)) {
+      throw new Error(`Unknown screenshot type "${type}". Expected one of: ${SCREENSHOT_TYPES.join(', ')}`);
+    }
+    return type;
+  }
+
+  const extension = filePath ? path.extname(filePath).toLowerCase() : '';
+  return extension === '.jpg' || extension === '.jpeg' ? 'jpeg' : 'png';
+}
+
+/**
+ * MIME type of a screenshot type
+ */
+export function screenshotMimeType(type: ScreenshotType): string {
+  return type === 'jpeg' ? 'image/jpeg' : 'image/png';
+}
+
+/**
+ * @throws Error if the quality is not an integer 0-100 or is used with PNG
+ */
+export function validateScreenshotQuality(quality: number | undefined, type: ScreenshotType): void {
+  if (quality === undefined) {
+    return;
+  }
+
+  if (type !== 'jpeg') {
+    throw new Error('Screenshot quality only applies to JPEG screenshots');
+  }
+
+  if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+    throw new Error(`Invalid screenshot quality ${quality}: expected an integer from 0 to 100`);
+  }
+}
+
+/**
+ * @throws Error if the clip is not a rectangle with a positive size
+ */
+export function validateScreenshotClip(clip: ScreenshotClip): void {
+  const values = [clip.x, clip.y, clip.width, clip.height];
+
+  if (values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new Error('Screenshot clip must have numeric x, y, width and height');
+  }
+
+  if (clip.width <= 0 || clip.height <= 0) {
+    throw new Error(`Invalid screenshot clip ${clip.width}x${clip.height}: width and height must be positive`);
+  }
+}
+
+/**
+ * Selectors of sensitive elements masked with maskSensitive: password fields and config.screenshotMaskSelectors
+ */
+export function sensitiveMaskSelectors(): string[] {
+  return [PASSWORD_SELECTOR, ...config.screenshotMaskSelectors];
+}
+
+/**
+ * Limits from config (SCREENSHOT_MAX_WIDTH / SCREENSHOT_MAX_HEIGHT / SCREENSHOT_MAX_BYTES, 0 = no limit)
+ */
+export function defaultImageLimits(): ImageLimits {
+  return {
+    ...(config.screenshotMaxWidth > 0 && { maxWidth: config.screenshotMaxWidth }),
+    ...(config.screenshotMaxHeight > 0 && { maxHeight: config.screenshotMaxHeight }),
+    ...(config.screenshotMaxBytes > 0 && { maxBytes: config.screenshotMaxBytes }),
+  };
+}
+
+/**
+ * Scale a screenshot down until it fits the size limits and the byte budget
+ *
+ * @param browser - Browser that does the scaling
+ * @param data - PNG or JPEG data
+ * @param type - Image type (kept when scaling)
+ * @param limits - Size limits and byte budget
+ * @param quality - JPEG quality 0-100 used when re-encoding
+ * @throws Error if the data is not PNG/JPEG or the budget cannot be met
+ */
+export async function fitScreenshot(
+  browser: Browser,
+  data: Buffer,
+  type: ScreenshotType,
+  limits: ImageLimits,
+  quality?: number
+): Promise<FittedImage> {
+  const original = readImageSize(data);
+  if (!original) {
+    throw new Error('Screenshot data is not a PNG or JPEG image');
+  }
+
+  let size = fitWithin(original, limits.maxWidth, limits.maxHeight);
+  const fitsSize = size.width === original.width && size.height === original.height;
+  const fitsBudget = limits.maxBytes === undefined || data.length <= limits.maxBytes;
+
+  if (fitsSize && fitsBudget) {
+    return { data, ...original, original, scaled: false };
+  }
+
+  const context = await browser.newContext();
+  try {
+    const page = await context.newPage();
+    const resize = async (target: ImageSize): Promise<Buffer> => {
+      const base64 = await page.evaluate(async ({ source, mimeType, width, height, encoderQuality }) => {
+        const bytes = Uint8Array.from(atob(source), (char) => char.charCodeAt(0));
+        const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+        const canvas = new OffscreenCanvas(width, height);
+        const context2d = canvas.getContext('2d')!;
+        context2d.imageSmoothingQuality = 'high';
+        context2d.drawImage(bitmap, 0, 0, width, height);
+
+        const blob = await canvas.convertToBlob({ type: mimeType, quality: encoderQuality });
+        const output = new Uint8Array(await blob.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < output.length; i += 0x8000) {
+          binary += String.fromCharCode(...output.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      }, {
+        source: data.toString('base64'),
+        mimeType: screenshotMimeType(type),
+        width: target.width,
+        height: target.height,
+        encoderQuality: quality !== undefined ? quality / 100 : undefined,
+      });
+
+      return Buffer.from(base64, 'base64');
+    };
+
+    let scaled = fitsSize ? data : await resize(size);
+
+    for (let attempt = 0; limits.maxBytes !== undefined && scaled.length > limits.maxBytes; attempt++) {
+      if (attempt === MAX_BUDGET_ATTEMPTS) {
+        throw new Error(
+          `Screenshot is still ${scaled.length} bytes at ${size.width}x${size.height}, over the budget of ${limits.maxBytes} bytes. ` +
+          'Capture an element or region, or use JPEG with a lower quality.'
+        );
+      }
+
+      // Bytes grow roughly with the pixel count
+      const ratio = Math.sqrt(limits.maxBytes / scaled.length) * 0.9;
+      size = fitWithin(size, size.width * ratio, size.height * ratio);
+      scaled = await resize(size);
+    }
+
+    return { data: scaled, ...size, original, scaled: true };
+  } finally {
+    await context.close();
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * SessionManager - Registry of isolated browser sessions
+ *
+ * Each session owns its own BrowserManager instance (browser, context, tabs),
+ * so several agents - or parallel tasks of one agent - can share one process.
+ * Sessions are identified by IDs (session-1, session-2, ...) and shut down
+ * independently; shutdownAll() closes every session (used by process hooks).
+ */
+
+import { BrowserManager } from './browserManager';
+import { logger } from '../utils/logger';
+
+/**
+ * SessionManager class - creates, looks up and closes sessions
+ */
+class SessionManager {
+  private sessions: Map<string, BrowserManager> = new Map();
+  private nextId = 1;
+
+  /**
+   * Create a new session with its own BrowserManager (not launched yet)
+   *
+   * @returns The new session's BrowserManager
+   */
+  create(): BrowserManager {
+    const sessionId = `session-${this.nextId++}`;
+    const manager = new BrowserManager(sessionId);
+
+    this.sessions.set(sessionId, manager);
+    logger.debug(`Session created: ${sessionId}`);
+
+    return manager;
+  }
+
+  /**
+   * Get a session by ID
+   *
+   * @returns BrowserManager or null if the session does not exist
+   */
+  get(sessionId: string): BrowserManager | null {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  /**
+   * IDs of all open sessions in creation order
+   */
+  list(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Close a session and forget it (idempotent)
+   * Also closes sessions that lost their last tab; the session is forgotten even if closing fails.
+   *
+   * @param sessionId - Session to close
+   * @throws Error if closing the session's browser fails
+   */
+  async close(sessionId: string): Promise<void> {
+    const manager = this.sessions.get(sessionId);
+    if (!manager) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    await manager.close();
+    logger.debug(`Session closed: ${sessionId}`);
+  }
+
+  /**
+   * Shut down all sessions in parallel (never throws)
+   * One failing session does not prevent the others from closing.
+   */
+  async shutdownAll(): Promise<void> {
+    const sessionIds = this.list();
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    logger.info(`Shutting down ${sessionIds.length} session(s): ${sessionIds.join(', ')}`);
+
+    const results = await Promise.allSettled(sessionIds.map((sessionId) => this.close(sessionId)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Error shutting down ${sessionIds[index]}: ${result.reason?.message ?? result.reason}`);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionManager = new SessionManager();
+
+// Also export class for testing or custom instances
+export { SessionManager };
@@ -0,0 +1,124 @@
+/**
+ * Storage - Cookie filtering and localStorage/sessionStorage access
+ *
+ * Cookies live in the browser context (shared by all tabs).
+ * Web storage is per origin, so it is read/written through the active page.
+ */
+
+import { Cookie, Page } from 'playwright';
+
+export type WebStorageArea = 'local' | 'session';
+
+export const WEB_STORAGE_AREAS: readonly WebStorageArea[] = ['local', 'session'];
+
+export interface CookieFilter {
+  /** Domain to match, including subdomains ("example.com" matches ".app.example.com") */
+  domain?: string;
+  name?: string;
+}
+
+export interface CookieInput {
+  name: string;
+  value: string;
+  /** Either url, or domain + path, identifies where the cookie applies */
+  url?: string;
+  domain?: string;
+  path?: string;
+  /** Unix time in seconds (omit for a session cookie) */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Check whether a cookie matches a filter
+ *
+ * @param cookie - Cookie from context.cookies()
+ * @param filter - Domain/name filter (empty filter matches everything)
+ */
+export function matchesCookieFilter(cookie: Cookie, filter: CookieFilter): boolean {
+  if (filter.name && cookie.name !== filter.name) {
+    return false;
+  }
+
+  if (filter.domain) {
+    const wanted = filter.domain.replace(/^\./, '').toLowerCase();
+    const domain = cookie.domain.replace(/^\./, '').toLowerCase();
+
+    if (domain !== wanted && !domain.endsWith(`.${wanted}`)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Read all entries of a web storage area for the page's origin
+ */
+export async function readWebStorage(page: Page, area: WebStorageArea): Promise<Record<string, string>> {
+  return await page.evaluate((areaName) => {
+    const storage = areaName === 'local' ? window.localStorage : window.sessionStorage;
+    const entries: Record<string, string> = {};
+
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) {
+        entries[key] = storage.getItem(key) ?? '';
+      }
+    }
+
+    return entries;
+  }, area);
+}
+
+/**
+ * Write entries to a web storage area for the page's origin
+ */
+export async function writeWebStorage(
+  page: Page,
+  area: WebStorageArea,
+  entries: Record<string, string>
+): Promise<void> {
+  await page.evaluate(
+    ({ areaName, values }) => {
+      const storage = areaName === 'local' ? window.localStorage : window.sessionStorage;
+
+      for (const [key, value] of Object.entries(values)) {
+        storage.setItem(key, value);
+      }
+    },
+    { areaName: area, values: entries }
+  );
+}
+
+/**
+ * Remove entries from a web storage area for the page's origin
+ *
+ * @param keys - Keys to remove (default: all)
+ * @returns Number of entries removed
+ */
+export async function clearWebStorage(page: Page, area: WebStorageArea, keys?: string[]): Promise<number> {
+  return await page.evaluate(
+    ({ areaName, keysToRemove }) => {
+      const storage = areaName === 'local' ? window.localStorage : window.sessionStorage;
+
+      if (!keysToRemove) {
+        const count = storage.length;
+        storage.clear();
+        return count;
+      }
+
+      let count = 0;
+      for (const key of keysToRemove) {
+        if (storage.getItem(key) !== null) {
+          storage.removeItem(key);
+          count++;
+        }
+      }
+      return count;
+    },
+    { areaName: area, keysToRemove: keys ?? null }
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * TraceRecorder - Playwright tracing for a browser session
+ *
+ * Traces (screenshots, DOM snapshots and sources) are written as zips to
+ * <artifactsDir>/trace and open in the trace viewer
+ * (`npx playwright show-trace <zip>`). Tracing runs either automatically for
+ * every context of the session (mode "on", or "retain-on-failure" where the
+ * trace is only kept if a step failed) or between explicit start() and
+ * stop() calls.
+ */
+
+import * as path from 'path';
+import { BrowserContext } from 'playwright';
+import { TraceMode } from './config';
+import { artifactDir, resolveArtifactPath } from './artifacts';
+import { ensureDir } from '../utils/fs';
+import { logger } from '../utils/logger';
+
+interface ActiveTrace {
+  /** Started by start() (manual) or by the trace mode (automatic) */
+  manual: boolean;
+  /** File name requested by start() */
+  name?: string;
+  /** A step failed while tracing */
+  failed: boolean;
+}
+
+/**
+ * TraceRecorder class - tracing state of one session
+ */
+class TraceRecorder {
+  private mode: TraceMode = 'off';
+  private active: ActiveTrace | null = null;
+  private files: string[] = [];
+
+  /**
+   * @param sessionId - Session ID (default trace file name prefix)
+   */
+  constructor(private readonly sessionId: string) {}
+
+  /**
+   * Set the mode for the session's contexts and forget earlier trace files (e.g. at launch)
+   */
+  reset(mode: TraceMode): void {
+    this.mode = mode;
+    this.active = null;
+    this.files = [];
+  }
+
+  /**
+   * Start automatic tracing on a new context (modes "on" and "retain-on-failure")
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.mode === 'off') {
+      return;
+    }
+
+    await this.startTracing(context, { manual: false, failed: false });
+    logger.info(`Tracing started (TRACE_MODE ${this.mode})`);
+  }
+
+  /**
+   * Start tracing explicitly
+   *
+   * @param name - Zip file name in the trace directory (default: <sessionId>-<timestamp>.zip)
+   * @throws Error if tracing is already running or the name escapes the trace directory
+   */
+  async start(context: BrowserContext, name?: string): Promise<void> {
+    if (this.active) {
+      throw new Error(
+        `Tracing is already running (${this.active.manual ? 'started manually' : `trace mode ${this.mode}`}). Stop it first.`
+      );
+    }
+
+    if (name !== undefined) {
+      // Fail fast on names outside the trace directory
+      resolveArtifactPath('trace', name, '.zip');
+    }
+
+    await this.startTracing(context, { manual: true, name, failed: false });
+    logger.info(`Tracing started${name ? ` (${name})` : ''}`);
+  }
+
+  /**
+   * Stop tracing and save the trace (kept regardless of the trace mode)
+   *
+   * @returns Path of the trace zip
+   * @throws Error if tracing is not running
+   */
+  async stop(context: BrowserContext): Promise<string> {
+    if (!this.active) {
+      throw new Error('Tracing is not running. Start it first.');
+    }
+
+    return await this.save(context, this.active);
+  }
+
+  /**
+   * Remember that a step failed (keeps "retain-on-failure" traces)
+   */
+  markFailed(): void {
+    if (this.active && !this.active.failed) {
+      this.active.failed = true;
+      if (!this.active.manual && this.mode === 'retain-on-failure') {
+        logger.info('Step failed - the trace will be kept');
+      }
+    }
+  }
+
+  /**
+   * Finish tracing before the context closes
+   * Manual and "on" traces are saved; "retain-on-failure" traces only if a step failed.
+   *
+   * @returns Path of the saved trace, or null if nothing was saved
+   */
+  async detach(context: BrowserContext): Promise<string | null> {
+    const trace = this.active;
+    if (!trace) {
+      return null;
+    }
+
+    if (trace.manual || this.mode === 'on' || trace.failed) {
+      return await this.save(context, trace);
+    }
+
+    this.active = null;
+    await context.tracing.stop();
+    logger.debug('Trace discarded (no failed step)');
+    return null;
+  }
+
+  isTracing(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Trace zips saved so far
+   */
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  private async startTracing(context: BrowserContext, trace: ActiveTrace): Promise<void> {
+    await context.tracing.start({ screenshots: true, snapshots: true, sources: true, title: this.sessionId });
+    this.active = trace;
+  }
+
+  private async save(context: BrowserContext, trace: ActiveTrace): Promise<string> {
+    const tracePath = this.nextPath(trace);
+    this.active = null;
+
+    await ensureDir(path.dirname(tracePath));
+    await context.tracing.stop({ path: tracePath });
+
+    this.files.push(tracePath);
+    logger.info(`Trace saved: ${tracePath}`);
+    return tracePath;
+  }
+
+  /**
+   * Path for a trace: the requested name, or <sessionId>-<timestamp>[-failed].zip
+   * Numbered (-2, -3, ...) if the session already saved a trace under that path.
+   */
+  private nextPath(trace: ActiveTrace): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const baseName = trace.name ?? `${this.sessionId}-${timestamp}${trace.failed ? '-failed' : ''}`;
+    const basePath = trace.name !== undefined
+      ? resolveArtifactPath('trace', baseName, '.zip')
+      : path.join(artifactDir('trace'), `${baseName}.zip`);
+
+    const extension = path.extname(basePath);
+    let tracePath = basePath;
+    for (let n = 2; this.files.includes(tracePath); n++) {
+      tracePath = `${basePath.slice(0, -extension.length)}-${n}${extension}`;
+    }
+
+    return tracePath;
+  }
+}
+
+export { TraceRecorder };
@@ -0,0 +1,136 @@
+/**
+ * VerificationReport - Soft verification checks collected per session
+ *
+ * Soft checks (text, visibility, URL, value) never stop an agent run: every
+ * result is recorded here, failures together with a screenshot of the page
+ * at that moment. At the end of the run the report gives QA reviewers one
+ * pass/fail summary instead of a stop at the first mismatch.
+ */
+
+import { AssertionName, AssertionResult } from './assertions';
+
+export type VerificationCheck = 'text' | 'visible' | 'url' | 'value';
+
+export const VERIFICATION_CHECKS: readonly VerificationCheck[] = ['text', 'visible', 'url', 'value'];
+
+export interface VerificationEntry {
+  /** 1-based position in the report */
+  index: number;
+  check: VerificationCheck;
+  passed: boolean;
+  /** Target description (element checks) */
+  target?: string;
+  expected: string;
+  actual: string;
+  message: string;
+  /** Page URL when the check ran */
+  url: string;
+  /** Screenshot of the page (failed checks only, if it could be captured) */
+  screenshot?: string;
+  timestamp: string;
+}
+
+export interface VerificationSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  entries: VerificationEntry[];
+}
+
+/**
+ * Assertion used for a soft check
+ *
+ * @param check - Check kind
+ * @param exact - Text checks: whole text must match (default: substring)
+ */
+export function assertionForCheck(check: VerificationCheck, exact = false): AssertionName {
+  switch (check) {
+    case 'text':
+      return exact ? 'toHaveText' : 'toContainText';
+    case 'visible':
+      return 'toBeVisible';
+    case 'url':
+      return 'toHaveURL';
+    case 'value':
+      return 'toHaveValue';
+  }
+}
+
+/**
+ * VerificationReport class - ordered list of soft check results
+ */
+class VerificationReport {
+  private entries: VerificationEntry[] = [];
+
+  /**
+   * Record a check result
+   *
+   * @param check - Check kind
+   * @param result - Assertion result of the check
+   * @param url - Page URL when the check ran
+   * @param screenshot - Screenshot path (failed checks)
+   * @returns The recorded entry
+   */
+  add(check: VerificationCheck, result: AssertionResult, url: string, screenshot?: string | null): VerificationEntry {
+    const entry: VerificationEntry = {
+      index: this.entries.length + 1,
+      check,
+      passed: result.passed,
+      ...(result.target && { target: result.target }),
+      expected: result.expected,
+      actual: result.actual,
+      message: result.message,
+      url,
+      ...(screenshot && { screenshot }),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Counts and entries (copy) of all checks so far
+   */
+  getSummary(): VerificationSummary {
+    const passed = this.entries.filter((entry) => entry.passed).length;
+
+    return {
+      total: this.entries.length,
+      passed,
+      failed: this.entries.length - passed,
+      entries: [...this.entries],
+    };
+  }
+
+  /**
+   * Forget all recorded checks
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Format a summary as text: counts line, then one line per check
+ *
+ * Example:
+ *   Verification: 2 passed, 1 failed (3 checks)
+ *   1. PASS toContainText: selector ".title"
+ *   2. FAIL toHaveURL: page URL - expected "**\/cart.html", actual https://... (screenshot: screenshots/verify-...png)
+ */
+export function formatVerificationSummary(summary: VerificationSummary): string {
+  const lines = [`Verification: ${summary.passed} passed, ${summary.failed} failed (${summary.total} checks)`];
+
+  for (const entry of summary.entries) {
+    let line = `${entry.index}. ${entry.message}`;
+    if (entry.screenshot) {
+      line += ` (screenshot: ${entry.screenshot})`;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+export { VerificationReport };
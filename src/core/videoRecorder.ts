@@ -0,0 +1,171 @@
+/**
+ * VideoRecorder - Screen recordings of a browser session
+ *
+ * Playwright records one video per page under a random name and only
+ * finishes writing it when the browser context closes. The recorder keeps
+ * track of the pages of a context and, once the context is closed, renames
+ * their videos to <sessionId>-<timestamp>-<tabId>.webm in <artifactsDir>/video
+ * so recordings of several sessions can be told apart.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, BrowserContextOptions, Page, Video } from 'playwright';
+import { artifactDir } from './artifacts';
+import { ensureDir, pathExists } from '../utils/fs';
+import { logger } from '../utils/logger';
+
+export interface VideoRecordOptions {
+  /** Frame size (default: the viewport, scaled down to fit 800x800) */
+  size?: { width: number; height: number };
+}
+
+interface RecordedPage {
+  video: Video;
+  /** Tab ID when the page was opened (pages may be closed before the context) */
+  tabId: string | null;
+}
+
+/**
+ * VideoRecorder class - videos of one session
+ */
+class VideoRecorder {
+  private options: VideoRecordOptions | null = null;
+  private pages: RecordedPage[] = [];
+  private startedAt = '';
+  private files: string[] = [];
+
+  /**
+   * @param sessionId - Session ID (video file name prefix)
+   * @param tabIdOf - Resolves the tab ID of a page (video file name suffix)
+   */
+  constructor(
+    private readonly sessionId: string,
+    private readonly tabIdOf: (page: Page) => string | null
+  ) {}
+
+  /**
+   * Record the session's contexts (null: no recording) and forget earlier videos (e.g. at launch)
+   */
+  reset(options: VideoRecordOptions | null): void {
+    this.options = options;
+    this.pages = [];
+    this.files = [];
+  }
+
+  /**
+   * recordVideo option for a new context (empty when not recording)
+   */
+  async contextOptions(): Promise<Pick<BrowserContextOptions, 'recordVideo'>> {
+    if (!this.options) {
+      return {};
+    }
+
+    const dir = artifactDir('video');
+    await ensureDir(dir);
+    return { recordVideo: { dir, ...(this.options.size && { size: this.options.size }) } };
+  }
+
+  /**
+   * Track the videos of a context's pages (all current and future tabs)
+   * Attach after the page manager, so new pages already have their tab ID.
+   */
+  attach(context: BrowserContext): void {
+    if (!this.options) {
+      return;
+    }
+
+    this.pages = [];
+    this.startedAt = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const track = (page: Page) => {
+      const video = page.video();
+      if (video) {
+        this.pages.push({ video, tabId: this.tabIdOf(page) });
+      }
+    };
+    context.pages().forEach(track);
+    context.on('page', track);
+
+    logger.info(`Recording video to ${artifactDir('video')} (finalized when the session closes)`);
+  }
+
+  /**
+   * Rename the videos of a closed context to <sessionId>-<timestamp>-<tabId>.webm
+   * Call after context.close() - the files are only complete then.
+   *
+   * @returns Paths of the renamed videos
+   */
+  async finalize(): Promise<string[]> {
+    const pages = this.pages;
+    this.pages = [];
+    const saved: string[] = [];
+
+    for (const [index, { video, tabId }] of pages.entries()) {
+      try {
+        const recordedPath = await video.path();
+        if (!(await pathExists(recordedPath))) {
+          continue;
+        }
+
+        const videoPath = await this.nextPath(tabId ?? `page-${index + 1}`, path.extname(recordedPath));
+        await fs.promises.rename(recordedPath, videoPath);
+
+        this.files.push(videoPath);
+        saved.push(videoPath);
+        logger.info(`Video saved: ${videoPath}`);
+      } catch (error: any) {
+        logger.warn(`Failed to save video: ${error.message}`);
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * Videos saved so far
+   */
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  /**
+   * Free path <sessionId>-<timestamp>-<tabId>.webm, numbered (-2, -3, ...) if taken
+   * (e.g. a context recreated within the same second)
+   */
+  private async nextPath(tabId: string, extension: string): Promise<string> {
+    const basePath = path.join(artifactDir('video'), `${this.sessionId}-${this.startedAt}-${tabId}`);
+
+    for (let n = 1; ; n++) {
+      const candidate = `${basePath}${n === 1 ? '' : `-${n}`}${extension}`;
+      if (!this.files.includes(candidate) && !(await pathExists(candidate))) {
+        return candidate;
+      }
+    }
+  }
+}
+
+/**
+ * Resolve the recordVideo launch option (true, false or frame size options)
+ *
+ * @returns Recording options or null if the session is not recorded
+ * @throws Error if the frame size is not positive
+ */
+export function resolveVideoRecording(option: boolean | VideoRecordOptions): VideoRecordOptions | null {
+  if (option === false) {
+    return null;
+  }
+
+  if (option === true) {
+    return {};
+  }
+
+  const size = option.size;
+  if (size && !(size.width > 0 && size.height > 0)) {
+    throw new Error(`Invalid video size ${size.width}x${size.height}: width and height must be positive`);
+  }
+
+  return size ? { size: { width: Math.round(size.width), height: Math.round(size.height) } } : {};
+}
+
+export { VideoRecorder };
@@ -0,0 +1,184 @@
+/**
+ * Wait Conditions - Wait for several page conditions at once
+ *
+ * A wait combines any of: element state, text on the page, URL, load state
+ * and a network response. All given conditions must be met within one shared
+ * timeout; conditions are awaited in parallel. On timeout the error lists the
+ * conditions that were still pending (and those already met), so an agent
+ * can tell what the page is actually waiting on.
+ */
+
+import { errors, Locator, Page, Response } from 'playwright';
+import { UrlPattern, describeUrlPattern } from '../utils/patterns';
+
+export type ElementState = 'visible' | 'hidden' | 'attached' | 'detached';
+
+export const ELEMENT_STATES: readonly ElementState[] = ['visible', 'hidden', 'attached', 'detached'];
+
+export type WaitLoadState = 'load' | 'domcontentloaded' | 'networkidle';
+
+export const WAIT_LOAD_STATES: readonly WaitLoadState[] = ['load', 'domcontentloaded', 'networkidle'];
+
+/** When a navigation counts as done: a load state, or "commit" (response received, document loading) */
+export type NavigationWaitUntil = WaitLoadState | 'commit';
+
+export const NAVIGATION_WAIT_UNTIL: readonly NavigationWaitUntil[] = [...WAIT_LOAD_STATES, 'commit'];
+
+/**
+ * Conditions to wait for (at least one)
+ */
+export interface WaitConditions {
+  /** Element whose state to wait for */
+  element?: Locator;
+  /** Element description for messages (e.g. 'selector "#spinner"') */
+  elementDescription?: string;
+  /** State the element must reach (default: visible) */
+  state?: ElementState;
+  /** Text that must become visible on the page (substring, case-insensitive) */
+  text?: string;
+  /** URL the page must reach (glob or RegExp) */
+  url?: UrlPattern;
+  /** Load state the page must reach */
+  loadState?: WaitLoadState;
+  /** Response whose URL matches (only responses received after the wait starts) */
+  response?: UrlPattern;
+}
+
+export interface WaitResult {
+  /** Descriptions of the met conditions */
+  conditions: string[];
+  url: string;
+  /** Matching response, if a response was waited for */
+  response?: { url: string; status: number };
+  elapsedMs: number;
+}
+
+interface PendingCondition {
+  description: string;
+  wait: () => Promise<void>;
+}
+
+/**
+ * Wait until all conditions are met
+ *
+ * @param page - Page to wait on
+ * @param conditions - Conditions (at least one)
+ * @param timeout - Shared timeout in ms for all conditions
+ * @throws Error listing pending conditions on timeout, or the first other failure
+ */
+export async function waitForConditions(
+  page: Page,
+  conditions: WaitConditions,
+  timeout: number
+): Promise<WaitResult> {
+  const startTime = Date.now();
+  const received: { response?: Response } = {};
+  const pending = buildConditions(page, conditions, timeout, received);
+
+  if (pending.length === 0) {
+    throw new Error('No wait condition given');
+  }
+
+  const results = await Promise.allSettled(pending.map((condition) => condition.wait()));
+
+  const met = pending.filter((_, index) => results[index].status === 'fulfilled');
+  const failed = results
+    .map((result, index) => ({ result, condition: pending[index] }))
+    .filter((entry): entry is { result: PromiseRejectedResult; condition: PendingCondition } =>
+      entry.result.status === 'rejected'
+    );
+
+  if (failed.length > 0) {
+    const otherError = failed.find((entry) => !(entry.result.reason instanceof errors.TimeoutError));
+    if (otherError) {
+      throw new Error(
+        `Wait for ${otherError.condition.description} failed: ${otherError.result.reason?.message ?? otherError.result.reason}`,
+        { cause: otherError.result.reason }
+      );
+    }
+
+    const metText = met.length > 0 ? ` Already met: ${met.map((c) => c.description).join('; ')}.` : '';
+    throw new Error(
+      `Timed out after ${timeout}ms. Still pending: ${failed.map((entry) => entry.condition.description).join('; ')}.${metText}`
+    );
+  }
+
+  return {
+    conditions: met.map((condition) => condition.description),
+    url: page.url(),
+    ...(received.response && {
+      response: { url: received.response.url(), status: received.response.status() },
+    }),
+    elapsedMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Turn wait conditions into Playwright waits sharing one timeout
+ */
+function buildConditions(
+  page: Page,
+  conditions: WaitConditions,
+  timeout: number,
+  received: { response?: Response }
+): PendingCondition[] {
+  const pending: PendingCondition[] = [];
+
+  if (conditions.element) {
+    const element = conditions.element;
+    const state = conditions.state ?? 'visible';
+
+    pending.push({
+      description: `${conditions.elementDescription ?? 'element'} ${state}`,
+      wait: async () => {
+        if (state === 'hidden') {
+          // Hidden = no visible match left (missing elements count as hidden)
+          await element.filter({ visible: true }).first().waitFor({ state: 'detached', timeout });
+        } else {
+          await element.first().waitFor({ state, timeout });
+        }
+      },
+    });
+  }
+
+  if (conditions.text !== undefined) {
+    const text = conditions.text;
+
+    pending.push({
+      description: `text "${text}" visible`,
+      wait: () => page.getByText(text).filter({ visible: true }).first().waitFor({ state: 'attached', timeout }),
+    });
+  }
+
+  if (conditions.url !== undefined) {
+    const url = conditions.url;
+
+    pending.push({
+      description: `URL matching ${describeUrlPattern(url)}`,
+      // 'commit' - only the URL matters here, load states are a separate condition
+      wait: () => page.waitForURL(url, { timeout, waitUntil: 'commit' }),
+    });
+  }
+
+  if (conditions.loadState) {
+    const loadState = conditions.loadState;
+
+    pending.push({
+      description: `load state "${loadState}"`,
+      wait: () => page.waitForLoadState(loadState, { timeout }),
+    });
+  }
+
+  if (conditions.response !== undefined) {
+    const responseUrl = conditions.response;
+
+    pending.push({
+      description: `response matching ${describeUrlPattern(responseUrl)}`,
+      wait: async () => {
+        received.response = await page.waitForResponse(responseUrl, { timeout });
+      },
+    });
+  }
+
+  return pending;
+}
@@ -6,7 +6,7 @@
  * 
  * Architecture:
  * - Agent sends JSON-RPC requests via stdin (one per line)
- * - Server executes browserManager operations
+ * - Server executes BrowserManager operations (one instance per session)
  * - Server returns JSON-RPC responses via stdout (JSON per line)
  * - Server logs to stderr only (never stdout)
  * 
@@ -18,11 +18,39 @@
 
 import * as readline from 'readline';
 import * as path from 'path';
-import { browserManager } from '../core/browserManager';
+import { BrowserManager, HarRecordOptions, HarReplayOptions, NavigationResult, ScreenshotOptions, SelectOptionInput } from '../core/browserManager';
+import { LocatorSpec, parseLocatorSpec, describeLocator } from '../core/locatorSpec';
+import { EmulationOptions, EmulationSettings, COLOR_SCHEMES } from '../core/emulation';
+import { ASSERTION_NAMES, AssertionName, AssertionSpec, ExpectedValue, validateAssertion } from '../core/assertions';
+import {
+  VERIFICATION_CHECKS,
+  VerificationCheck,
+  assertionForCheck,
+  formatVerificationSummary,
+} from '../core/verificationReport';
+import { ABORT_ERROR_CODES, AbortErrorCode, ROUTE_ACTION_TYPES, RouteAction, RouteInfo } from '../core/routeManager';
+import { NetworkFilter, formatNetworkEntry } from '../core/networkLog';
+import { CONSOLE_LEVELS, ConsoleEntry, ConsoleLevel, formatConsoleEntry } from '../core/consoleLog';
+import { DialogPolicy, describeDialogPolicy, formatDialogRecord } from '../core/dialogHandler';
+import { formatDownload } from '../core/downloadManager';
+import { FrameTarget, describeFrame, formatFrameTree, parseFrameTarget } from '../core/frames';
+import { ELEMENT_STATES, ElementState, NAVIGATION_WAIT_UNTIL, WAIT_LOAD_STATES, WaitLoadState } from '../core/waitConditions';
+import { CookieInput, WebStorageArea, WEB_STORAGE_AREAS } from '../core/storage';
+import {
+  FittedImage,
+  ImageLimits,
+  SCREENSHOT_TYPES,
+  defaultImageLimits,
+  resolveScreenshotType,
+  screenshotMimeType,
+  validateScreenshotClip,
+} from '../core/screenshots';
+import { sessionManager } from '../core/sessionManager';
 import { registerProcessHooks } from '../core/processHooks';
 import { logger } from '../utils/logger';
-import { config } from '../core/config';
+import { config, BROWSER_NAMES, DIALOG_ACTIONS, TRACE_MODES } from '../core/config';
 import { ensureDir } from '../utils/fs';
+import { UrlPattern, parseUrlPattern, parseRegexLiteral } from '../utils/patterns';
 
 /**
  * JSON-RPC error codes
@@ -36,6 +64,77 @@ const ErrorCode = {
   NO_BROWSER_SESSION: -32000,
 } as const;
 
+/**
+ * Schema for the sessionId argument accepted by every tool except browser_launch
+ */
+const sessionIdProperty = {
+  type: 'string',
+  description: 'Session ID returned by browser_launch (optional when only one session is open)',
+};
+
+/**
+ * Schema for the ref argument (alternative to selector) of element tools
+ */
+const refProperty = {
+  type: 'string',
+  description: 'Element ref from browser_snapshot (e.g. "e5"), alternative to selector',
+};
+
+/**
+ * Schema for the frame argument of element tools
+ */
+const frameProperty = {
+  description:
+    'Search inside an iframe: iframe selector, selector chain for nested iframes (outermost first), ' +
+    'or an object with exactly one of selector, name (frame name) or url (glob or "/regex/flags"). ' +
+    'Example: {"name":"payment"}. See browser_frames',
+  anyOf: [
+    { type: 'string' },
+    { type: 'array', items: { type: 'string' } },
+    {
+      type: 'object',
+      properties: {
+        selector: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+        name: { type: 'string' },
+        url: { type: 'string' },
+      },
+    },
+  ],
+};
+
+/**
+ * Schema for the waitUntil argument of navigation tools
+ */
+const waitUntilProperty = {
+  type: 'string',
+  enum: ['load', 'domcontentloaded', 'networkidle', 'commit'],
+  description: 'When the navigation counts as done (default: domcontentloaded)',
+};
+
+/**
+ * Schema for the semantic locator argument (alternative to selector/ref) of element tools
+ */
+const locatorProperty = {
+  type: 'object',
+  description:
+    'Semantic locator, alternative to selector/ref. Exactly one of css, role (+name), label, placeholder, text, testId, ref; ' +
+    'optional nth (0-based, -1 = last), exact, and within (parent locator of the same shape). ' +
+    'Example: {"role":"button","name":"Login"}',
+  properties: {
+    css: { type: 'string' },
+    role: { type: 'string', description: 'ARIA role, e.g. button, link, textbox' },
+    name: { type: 'string', description: 'Accessible name (with role)' },
+    label: { type: 'string' },
+    placeholder: { type: 'string' },
+    text: { type: 'string' },
+    testId: { type: 'string' },
+    ref: { type: 'string' },
+    exact: { type: 'boolean' },
+    nth: { type: 'number' },
+    within: { type: 'object', description: 'Parent locator (same shape)' },
+  },
+};
+
 /**
  * JSON-RPC 2.0 request interface
  */
@@ -60,11 +159,22 @@ interface JSONRPCResponse {
   };
 }
 
+/**
+ * MCP image content item (base64 data)
+ */
+interface ImageContent {
+  type: 'image';
+  data: string;
+  mimeType: string;
+}
+
 /**
  * MCP Server implementation
  */
 export class MCPServer {
   private isInitialized = false;
+  // Session of each running tool call - its new page errors are appended to the result
+  private errorSummarySessions = new Map<string | number | null, BrowserManager>();
 
   constructor() {
     // Register process hooks for graceful shutdown
@@ -76,8 +186,8 @@ export class MCPServer {
    */
   private registerShutdownHooks(): void {
     registerProcessHooks(async () => {
-      logger.info('MCP Server: Shutting down browser...');
-      await browserManager.shutdown();
+      logger.info('MCP Server: Shutting down all browser sessions...');
+      await sessionManager.shutdownAll();
       logger.info('MCP Server: Browser shutdown complete');
     });
     
@@ -195,14 +305,124 @@ export class MCPServer {
     const tools = [
       {
         name: 'browser_launch',
-        description: 'Start a browser session (visible by default)',
+        description: 'Start a new isolated browser session (visible by default). Returns a sessionId for the other tools',
         inputSchema: {
           type: 'object',
           properties: {
+            browserType: {
+              type: 'string',
+              enum: [...BROWSER_NAMES],
+              description: 'Browser engine (default: BROWSER env var or chromium)',
+            },
             headless: {
               type: 'boolean',
               description: 'Run browser headless',
             },
+            device: {
+              type: 'string',
+              description: 'Playwright device preset name (e.g. "iPhone 13", "Pixel 7")',
+            },
+            viewport: {
+              type: 'object',
+              properties: {
+                width: { type: 'number' },
+                height: { type: 'number' },
+              },
+              required: ['width', 'height'],
+              description: 'Viewport size (overrides the device preset, default 1280x720)',
+            },
+            locale: {
+              type: 'string',
+              description: 'Locale, e.g. "de-DE"',
+            },
+            timezoneId: {
+              type: 'string',
+              description: 'IANA timezone, e.g. "Europe/Berlin"',
+            },
+            colorScheme: {
+              type: 'string',
+              enum: [...COLOR_SCHEMES],
+              description: 'Emulated prefers-color-scheme',
+            },
+            userAgent: {
+              type: 'string',
+              description: 'Custom user agent',
+            },
+            geolocation: {
+              type: 'object',
+              properties: {
+                latitude: { type: 'number' },
+                longitude: { type: 'number' },
+                accuracy: { type: 'number' },
+              },
+              required: ['latitude', 'longitude'],
+              description: 'Emulated geolocation (grants the geolocation permission)',
+            },
+            permissions: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Permissions to grant, e.g. ["clipboard-read", "notifications"]',
+            },
+            storageState: {
+              type: 'string',
+              description: 'Saved storage state to start with (name in AUTH_STATE_DIR, see browser_storage_save)',
+            },
+            recordHar: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', description: 'HAR file name in ARTIFACTS_DIR/har' },
+                urlFilter: { type: 'string', description: 'Only record URLs matching this glob or "/regex/flags"' },
+              },
+              required: ['path'],
+              description: 'Record the session traffic to a HAR file (written when the session closes; default: RECORD_HAR env var)',
+            },
+            replayHar: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', description: 'HAR file name in ARTIFACTS_DIR/har' },
+                urlFilter: { type: 'string', description: 'Only serve URLs matching this glob or "/regex/flags" from the HAR' },
+                notFound: {
+                  type: 'string',
+                  enum: ['abort', 'fallback'],
+                  description: 'Requests missing from the HAR: abort (offline, default) or use the network',
+                },
+              },
+              required: ['path'],
+              description: 'Answer requests from a recorded HAR file (default: REPLAY_HAR env var)',
+            },
+            dialogPolicy: {
+              type: 'object',
+              properties: {
+                action: { type: 'string', enum: [...DIALOG_ACTIONS] },
+                promptText: { type: 'string', description: 'Text entered into prompt() dialogs when accepting' },
+              },
+              required: ['action'],
+              description: 'How to answer alert/confirm/prompt dialogs (default: DIALOG_POLICY env var, "dismiss")',
+            },
+            traceMode: {
+              type: 'string',
+              enum: [...TRACE_MODES],
+              description: 'Trace the session to ARTIFACTS_DIR/trace: on, or retain-on-failure (kept only if a step fails) (default: TRACE_MODE env var, "off")',
+            },
+            recordVideo: {
+              anyOf: [
+                { type: 'boolean' },
+                {
+                  type: 'object',
+                  properties: {
+                    size: {
+                      type: 'object',
+                      properties: {
+                        width: { type: 'number' },
+                        height: { type: 'number' },
+                      },
+                      required: ['width', 'height'],
+                    },
+                  },
+                },
+              ],
+              description: 'Record a video of every tab to ARTIFACTS_DIR/video, optionally with a frame size. Paths are returned by browser_quit (default: RECORD_VIDEO env var, false)',
+            },
           },
           required: [],
         },
@@ -213,32 +433,127 @@ export class MCPServer {
         inputSchema: {
           type: 'object',
           properties: {
+            sessionId: sessionIdProperty,
             url: {
               type: 'string',
               description: 'URL to navigate to',
             },
+            waitUntil: waitUntilProperty,
           },
           required: ['url'],
         },
       },
+      {
+        name: 'browser_go_back',
+        description: 'Go back one entry in the active tab\'s history. Returns the resulting URL, title and HTTP status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            waitUntil: waitUntilProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_go_forward',
+        description: 'Go forward one entry in the active tab\'s history. Returns the resulting URL, title and HTTP status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            waitUntil: waitUntilProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_reload',
+        description: 'Reload the active tab. Returns the URL, title and HTTP status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            waitUntil: waitUntilProperty,
+          },
+          required: [],
+        },
+      },
       {
         name: 'browser_screenshot',
-        description: 'Capture viewport (optionally save to file)',
+        description: 'Capture the viewport, full page, one element or a region (optionally save to file). maskSensitive covers password fields and SCREENSHOT_MASK_SELECTORS',
         inputSchema: {
           type: 'object',
           properties: {
+            sessionId: sessionIdProperty,
             filename: {
               type: 'string',
-              description: 'Optional filename (relative to SCREENSHOT_DIR)',
+              description: 'Optional filename (relative to SCREENSHOT_DIR); .jpg/.jpeg saves a JPEG',
             },
             returnBase64: {
               type: 'boolean',
-              description: 'Return base64 instead of saving only',
+              description: 'Return the image as MCP image content (scaled down to maxWidth/maxHeight/maxBytes)',
+            },
+            maxWidth: {
+              type: 'number',
+              description: 'Scale the returned image down to this width (default: SCREENSHOT_MAX_WIDTH, 0 = no limit)',
+            },
+            maxHeight: {
+              type: 'number',
+              description: 'Scale the returned image down to this height (default: SCREENSHOT_MAX_HEIGHT, 0 = no limit)',
+            },
+            maxBytes: {
+              type: 'number',
+              description: 'Scale the returned image down until it has at most this many bytes (default: SCREENSHOT_MAX_BYTES, 0 = no limit)',
             },
             fullPage: {
               type: 'boolean',
               description: 'Capture full page',
             },
+            selector: {
+              type: 'string',
+              description: 'Capture only this element (CSS selector)',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            frame: frameProperty,
+            clip: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+              },
+              required: ['x', 'y', 'width', 'height'],
+              description: 'Capture only this region in CSS pixels (page coordinates with fullPage, otherwise viewport)',
+            },
+            type: {
+              type: 'string',
+              enum: [...SCREENSHOT_TYPES],
+              description: 'Image type (default: from the filename, else png)',
+            },
+            quality: {
+              type: 'number',
+              description: 'JPEG quality 0-100',
+            },
+            mask: {
+              type: 'array',
+              items: { anyOf: [{ type: 'string' }, locatorProperty] },
+              description: 'More elements to cover with a solid box (CSS selectors or locators)',
+            },
+            maskSensitive: {
+              type: 'boolean',
+              description: 'Cover password fields and SCREENSHOT_MASK_SELECTORS (default: false)',
+            },
+            maskColor: {
+              type: 'string',
+              description: 'Color of the mask boxes (CSS color, default: #000000)',
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms for the element',
+            },
           },
           required: [],
         },
@@ -248,7 +563,9 @@ export class MCPServer {
         description: 'Close the browser session',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            sessionId: sessionIdProperty,
+          },
           required: [],
         },
       },
@@ -258,34 +575,42 @@ export class MCPServer {
         inputSchema: {
           type: 'object',
           properties: {
+            sessionId: sessionIdProperty,
             selector: {
               type: 'string',
               description: 'CSS selector',
             },
+            ref: refProperty,
+            locator: locatorProperty,
+            frame: frameProperty,
             timeoutMs: {
               type: 'number',
               description: 'Timeout in ms',
             },
           },
-          required: ['selector'],
+          required: [],
         },
       },
       {
         name: 'browser_click',
-        description: 'Click an element by CSS selector',
+        description: 'Click an element by CSS selector, snapshot ref or semantic locator',
         inputSchema: {
           type: 'object',
           properties: {
+            sessionId: sessionIdProperty,
             selector: {
               type: 'string',
               description: 'CSS selector',
             },
+            ref: refProperty,
+            locator: locatorProperty,
+            frame: frameProperty,
             timeoutMs: {
               type: 'number',
               description: 'Timeout in ms',
             },
           },
-          required: ['selector'],
+          required: [],
         },
       },
       {
@@ -294,10 +619,14 @@ export class MCPServer {
         inputSchema: {
           type: 'object',
           properties: {
+            sessionId: sessionIdProperty,
             selector: {
               type: 'string',
               description: 'CSS selector',
             },
+            ref: refProperty,
+            locator: locatorProperty,
+            frame: frameProperty,
             text: {
               type: 'string',
               description: 'Text to type',
@@ -311,306 +640,3339 @@ export class MCPServer {
               description: 'Clear existing text before typing',
             },
           },
-          required: ['selector', 'text'],
+          required: ['text'],
         },
       },
-    ];
-
-    this.sendResult(id, { tools });
-  }
-
-  /**
-   * Handle tools/call request
-   */
-  private async handleToolsCall(params: any, id: string | number | null): Promise<void> {
-    if (!params || typeof params !== 'object') {
-      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid params: expected object');
-      return;
-    }
-
-    const { name, arguments: args } = params;
-
-    if (!name || typeof name !== 'string') {
-      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid params: missing or invalid "name"');
-      return;
-    }
-
-    logger.info(`MCP Server: Calling tool: ${name}`);
-
-    switch (name) {
-      case 'browser_launch':
-        await this.toolBrowserLaunch(args || {}, id);
-        break;
-
-      case 'browser_navigate':
-        await this.toolBrowserNavigate(args || {}, id);
-        break;
-
-      case 'browser_screenshot':
-        await this.toolBrowserScreenshot(args || {}, id);
-        break;
-
-      case 'browser_quit':
-        await this.toolBrowserQuit(args || {}, id);
-        break;
-
-      case 'browser_find':
-        await this.toolBrowserFind(args || {}, id);
-        break;
-
-      case 'browser_click':
-        await this.toolBrowserClick(args || {}, id);
-        break;
-
-      case 'browser_type':
-        await this.toolBrowserType(args || {}, id);
-        break;
-
-      default:
-        this.sendError(id, ErrorCode.METHOD_NOT_FOUND, `Unknown tool: ${name}`);
-    }
-  }
-
-  /**
-   * Require active browser session before executing tool
-   * 
-   * @param id - Request ID for error response
-   * @returns true if session is active, false if not (and error already sent)
-   */
-  private requireSession(id: string | number | null): boolean {
-    if (!browserManager.isLaunched()) {
-      this.sendError(
-        id,
-        ErrorCode.NO_BROWSER_SESSION,
-        'No active browser session. Call browser_launch first.'
-      );
-      return false;
-    }
-    return true;
-  }
-
-  /**
-   * Tool: browser_launch
-   */
-  private async toolBrowserLaunch(args: any, id: string | number | null): Promise<void> {
-    try {
-      const headless = args.headless === true;
-      
-      logger.info(`MCP Server: Launching browser (headless: ${headless})...`);
-      
-      await browserManager.launch({ headless });
-
-      const resultText = `Browser launched (headless: ${headless})`;
-      
-      this.sendToolResult(id, resultText);
-
-      logger.info('MCP Server: Browser launched successfully');
-    } catch (error: any) {
-      logger.error(`MCP Server: Error launching browser: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to launch browser: ${error.message}`);
-    }
-  }
-
-  /**
-   * Tool: browser_navigate
-   */
-  private async toolBrowserNavigate(args: any, id: string | number | null): Promise<void> {
-    if (!this.requireSession(id)) return;
-
-    try {
-      const { url } = args;
-
-      if (!url || typeof url !== 'string') {
-        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "url" parameter');
-        return;
-      }
-
-      logger.info(`MCP Server: Navigating to ${url}...`);
-      
-      await browserManager.navigate(url);
-
-      this.sendToolResult(id, `Navigated to ${url}`);
-
-      logger.info('MCP Server: Navigation successful');
-    } catch (error: any) {
-      logger.error(`MCP Server: Error navigating: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to navigate: ${error.message}`);
-    }
-  }
-
-  /**
-   * Tool: browser_screenshot
-   */
-  private async toolBrowserScreenshot(args: any, id: string | number | null): Promise<void> {
-    if (!this.requireSession(id)) return;
-
-    try {
-      const { filename, returnBase64, fullPage } = args;
-
-      logger.info(`MCP Server: Taking screenshot (filename: ${filename || 'none'}, base64: ${returnBase64 || false}, fullPage: ${fullPage || false})...`);
-
-      const options: any = {
-        fullPage: fullPage === true,
-      };
-
-      let screenshotPath: string | undefined;
-      let base64Data: string | undefined;
-
-      // If filename is provided, save to file
-      if (filename && typeof filename === 'string') {
-        screenshotPath = path.join(config.screenshotDir, filename);
-        
-        // Ensure screenshot directory exists
-        await ensureDir(config.screenshotDir);
-        
-        options.path = screenshotPath;
-      }
-
-      // If returnBase64 is true, also return base64
-      if (returnBase64 === true) {
-        options.encoding = 'base64';
-        const buffer = await browserManager.screenshot(options);
-        base64Data = buffer.toString('base64');
-      } else {
-        await browserManager.screenshot(options);
-      }
-
-      // Build result text
-      let resultText = '';
-      if (screenshotPath) {
-        resultText += `Screenshot saved to ${screenshotPath}`;
-      }
-      if (base64Data) {
-        if (resultText) resultText += ' and ';
-        resultText += `returned as base64 (${base64Data.length} chars)`;
-      }
-      if (!resultText) {
-        resultText = 'Screenshot captured';
-      }
-
-      this.sendToolResult(id, resultText);
-
-      logger.info('MCP Server: Screenshot successful');
-    } catch (error: any) {
-      logger.error(`MCP Server: Error taking screenshot: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to take screenshot: ${error.message}`);
-    }
-  }
-
-  /**
-   * Tool: browser_quit
-   */
-  private async toolBrowserQuit(args: any, id: string | number | null): Promise<void> {
-    try {
-      logger.info('MCP Server: Closing browser session...');
-      
-      await browserManager.shutdown();
-
-      this.sendToolResult(id, 'Browser session closed');
-
-      logger.info('MCP Server: Browser session closed successfully');
-    } catch (error: any) {
-      logger.error(`MCP Server: Error closing browser: ${error.message}`);
+      {
+        name: 'browser_tabs_list',
+        description: 'List open tabs (id, url, title, active)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_tab_new',
+        description: 'Open a new tab and make it active',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            url: {
+              type: 'string',
+              description: 'Optional URL to open in the new tab',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_tab_select',
+        description: 'Make a tab the active one (click/type act on the active tab)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            tabId: {
+              type: 'string',
+              description: 'Tab ID from browser_tabs_list',
+            },
+          },
+          required: ['tabId'],
+        },
+      },
+      {
+        name: 'browser_tab_close',
+        description: 'Close a tab (default: active tab)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            tabId: {
+              type: 'string',
+              description: 'Tab ID from browser_tabs_list',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_storage_save',
+        description: 'Save cookies + localStorage (e.g. a logged-in state) to AUTH_STATE_DIR for reuse',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            name: {
+              type: 'string',
+              description: 'State name, e.g. "saucedemo-user" (saved as <name>.json)',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'browser_storage_load',
+        description: 'Restore a saved storage state. Recreates the browser context: tabs are closed and the current URL is reopened',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            name: {
+              type: 'string',
+              description: 'State name used with browser_storage_save',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'browser_cookies_get',
+        description: 'List cookies of the session, optionally filtered by domain and/or name',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            domain: {
+              type: 'string',
+              description: 'Domain filter (subdomains included)',
+            },
+            name: {
+              type: 'string',
+              description: 'Cookie name filter',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_cookies_set',
+        description: 'Add or overwrite cookies (default target: active tab URL)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            cookies: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  value: { type: 'string' },
+                  url: { type: 'string' },
+                  domain: { type: 'string' },
+                  path: { type: 'string' },
+                  expires: { type: 'number', description: 'Unix time in seconds' },
+                  httpOnly: { type: 'boolean' },
+                  secure: { type: 'boolean' },
+                  sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+                },
+                required: ['name', 'value'],
+              },
+            },
+          },
+          required: ['cookies'],
+        },
+      },
+      {
+        name: 'browser_cookies_clear',
+        description: 'Remove cookies, optionally filtered by domain and/or name (default: all)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            domain: {
+              type: 'string',
+              description: 'Domain filter (subdomains included)',
+            },
+            name: {
+              type: 'string',
+              description: 'Cookie name filter',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_web_storage_get',
+        description: 'Read localStorage or sessionStorage of the active tab origin (all entries or one key)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            area: {
+              type: 'string',
+              enum: [...WEB_STORAGE_AREAS],
+              description: 'Storage area',
+            },
+            key: {
+              type: 'string',
+              description: 'Optional key to read',
+            },
+          },
+          required: ['area'],
+        },
+      },
+      {
+        name: 'browser_web_storage_set',
+        description: 'Set localStorage or sessionStorage entries for the active tab origin',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            area: {
+              type: 'string',
+              enum: [...WEB_STORAGE_AREAS],
+              description: 'Storage area',
+            },
+            entries: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Key/value pairs to set',
+            },
+          },
+          required: ['area', 'entries'],
+        },
+      },
+      {
+        name: 'browser_web_storage_clear',
+        description: 'Remove localStorage or sessionStorage entries for the active tab origin (default: all)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            area: {
+              type: 'string',
+              enum: [...WEB_STORAGE_AREAS],
+              description: 'Storage area',
+            },
+            keys: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Keys to remove',
+            },
+          },
+          required: ['area'],
+        },
+      },
+      {
+        name: 'browser_snapshot',
+        description: 'Accessibility tree of the active tab (roles, names, states) with refs for interactive elements. Refs work as "ref" in browser_click/browser_type/browser_find until the page navigates or a new snapshot is taken',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_press_key',
+        description: 'Press a key, chord or key sequence (e.g. "Enter", "Control+A", ["Tab","Tab","Enter"]). Focuses the element first if a target is given, otherwise acts on the focused element',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            keys: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Key name/chord, or array of keys pressed in order',
+            },
+            selector: {
+              type: 'string',
+              description: 'Optional CSS selector of the element to focus',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: ['keys'],
+        },
+      },
+      {
+        name: 'browser_hover',
+        description: 'Hover over an element (selector, ref or locator)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_double_click',
+        description: 'Double-click an element (selector, ref or locator)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_right_click',
+        description: 'Right-click an element to open its context menu (selector, ref or locator)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_drag',
+        description: 'Drag an element and drop it onto another element',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            from: {
+              type: ['string', 'object'],
+              description: 'Element to drag: CSS selector string or locator object (e.g. {"ref":"e3"})',
+            },
+            to: {
+              type: ['string', 'object'],
+              description: 'Drop target: CSS selector string or locator object',
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: ['from', 'to'],
+        },
+      },
+      {
+        name: 'browser_select_option',
+        description: 'Select options of a native <select> element by value, label or index (exactly one of them; arrays for <select multiple>)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            value: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Option value attribute(s)',
+            },
+            label: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Option visible label(s)',
+            },
+            index: {
+              type: ['number', 'array'],
+              items: { type: 'number' },
+              description: 'Option index(es), 0-based',
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_check',
+        description: 'Check a checkbox or radio button and verify it is checked',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_uncheck',
+        description: 'Uncheck a checkbox and verify it is unchecked',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_upload_files',
+        description: 'Set the files of an <input type="file">. Paths are relative to the upload root (UPLOAD_DIR); an empty list clears the selection',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            files: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'File paths relative to the upload root',
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms',
+            },
+          },
+          required: ['files'],
+        },
+      },
+      {
+        name: 'browser_wait',
+        description: 'Wait until all given conditions are met: element state, visible text, URL, load state and/or a network response. On timeout the error lists the conditions still pending',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector of the element to wait for',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            frame: frameProperty,
+            state: {
+              type: 'string',
+              enum: ['visible', 'hidden', 'attached', 'detached'],
+              description: 'State the element must reach (default: visible)',
+            },
+            text: {
+              type: 'string',
+              description: 'Text that must become visible on the page',
+            },
+            url: {
+              type: 'string',
+              description: 'URL glob (e.g. "**/inventory.html") or "/regex/flags" the page must reach',
+            },
+            loadState: {
+              type: 'string',
+              enum: ['load', 'domcontentloaded', 'networkidle'],
+              description: 'Load state the page must reach',
+            },
+            response: {
+              type: 'string',
+              description: 'URL glob or "/regex/flags" of a network response to wait for (responses after the call)',
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in ms for all conditions (default: DEFAULT_TIMEOUT_MS)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_expect',
+        description: 'Assert page state with auto-retry until timeout (like Playwright web-first assertions). Returns PASS/FAIL with expected vs actual values; a failed assertion is a normal result, not an error',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            assertion: {
+              type: 'string',
+              enum: ['toBeVisible', 'toHaveText', 'toContainText', 'toHaveValue', 'toHaveURL', 'toHaveTitle', 'toHaveCount', 'toBeEnabled'],
+              description: 'Assertion to run. toHaveURL/toHaveTitle check the page, all others need selector, ref or locator',
+            },
+            expected: {
+              type: ['string', 'number'],
+              description: 'Expected text/value/title, URL glob, or "/regex/flags"; integer for toHaveCount. Not used by toBeVisible/toBeEnabled',
+            },
+            not: {
+              type: 'boolean',
+              description: 'Negate the assertion (default: false)',
+            },
+            selector: {
+              type: 'string',
+              description: 'CSS selector of the element',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Retry timeout in ms (default: DEFAULT_TIMEOUT_MS)',
+            },
+          },
+          required: ['assertion'],
+        },
+      },
+      {
+        name: 'browser_verify',
+        description: 'Soft verification check (text, visible, url, value) with auto-retry. Failures are recorded with a screenshot in the session verification report instead of stopping the run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            check: {
+              type: 'string',
+              enum: ['text', 'visible', 'url', 'value'],
+              description: 'What to verify. url checks the page, the others need selector, ref or locator',
+            },
+            expected: {
+              type: 'string',
+              description: 'Expected text (substring unless exact), input value, or URL glob; "/regex/flags" also accepted. Not used by visible',
+            },
+            exact: {
+              type: 'boolean',
+              description: 'text check: whole element text must match (default: false)',
+            },
+            not: {
+              type: 'boolean',
+              description: 'Negate the check (default: false)',
+            },
+            selector: {
+              type: 'string',
+              description: 'CSS selector of the element',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Retry timeout in ms (default: DEFAULT_TIMEOUT_MS)',
+            },
+          },
+          required: ['check'],
+        },
+      },
+      {
+        name: 'browser_verification_report',
+        description: 'Pass/fail list of all soft checks (browser_verify) of the session, with screenshots of failures',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            reset: {
+              type: 'boolean',
+              description: 'Clear the report after returning it (default: false)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_route_add',
+        description: 'Intercept requests matching a URL glob (or "/regex/flags") in all tabs: fulfill with a mocked response (inline body or fixture file), abort with a network error, or continue with modified headers. The newest matching route wins',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            url: {
+              type: 'string',
+              description: 'URL glob (e.g. "**/api/cart*") or "/regex/flags"',
+            },
+            action: {
+              type: 'string',
+              enum: ['fulfill', 'abort', 'continue'],
+              description: 'What to do with matching requests',
+            },
+            status: {
+              type: 'number',
+              description: 'fulfill: HTTP status (default: 200)',
+            },
+            headers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'fulfill: response headers; continue: request headers to add/override',
+            },
+            contentType: {
+              type: 'string',
+              description: 'fulfill: Content-Type (default: from fixture extension, or JSON for object bodies)',
+            },
+            body: {
+              type: ['string', 'object', 'array'],
+              description: 'fulfill: response body (objects/arrays are sent as JSON)',
+            },
+            fixture: {
+              type: 'string',
+              description: 'fulfill: file relative to the fixtures directory (FIXTURES_DIR) to send as body',
+            },
+            errorCode: {
+              type: 'string',
+              enum: [...ABORT_ERROR_CODES],
+              description: 'abort: network error code (default: failed)',
+            },
+            removeHeaders: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'continue: request header names to remove',
+            },
+            times: {
+              type: 'number',
+              description: 'Remove the route after this many matches (default: unlimited)',
+            },
+          },
+          required: ['url', 'action'],
+        },
+      },
+      {
+        name: 'browser_route_list',
+        description: 'List active routes (id, URL pattern, action, hit count)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_route_remove',
+        description: 'Remove a route by ID, or all routes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            routeId: {
+              type: 'string',
+              description: 'Route ID from browser_route_add / browser_route_list',
+            },
+            all: {
+              type: 'boolean',
+              description: 'Remove all routes',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_network_log',
+        description: 'Recent requests of all tabs (method, status, URL, resource type, timing, failure). Filter by status range, URL substring, resource type or failures; sinceLastCall returns only new requests. With requestId, returns that response body instead',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            statusMin: {
+              type: 'number',
+              description: 'Minimum HTTP status (e.g. 400)',
+            },
+            statusMax: {
+              type: 'number',
+              description: 'Maximum HTTP status (e.g. 599)',
+            },
+            urlContains: {
+              type: 'string',
+              description: 'Case-insensitive URL substring',
+            },
+            resourceType: {
+              type: 'string',
+              description: 'Resource type: document, xhr, fetch, script, stylesheet, image, ...',
+            },
+            failed: {
+              type: 'boolean',
+              description: 'Only network errors and HTTP status >= 400',
+            },
+            sinceLastCall: {
+              type: 'boolean',
+              description: 'Only requests recorded since the previous sinceLastCall query',
+            },
+            limit: {
+              type: 'number',
+              description: 'Return at most this many (most recent) entries (default: 50)',
+            },
+            requestId: {
+              type: 'string',
+              description: 'Return the response body of this request (req-N) instead of the log',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_console',
+        description: 'Console messages, uncaught page errors and crashes of all tabs. Filter by minimum level or text; sinceLastCall returns only new entries',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            level: {
+              type: 'string',
+              enum: [...CONSOLE_LEVELS],
+              description: 'Minimum level (e.g. "warning" = warnings and errors; default: all)',
+            },
+            textContains: {
+              type: 'string',
+              description: 'Case-insensitive text substring',
+            },
+            sinceLastCall: {
+              type: 'boolean',
+              description: 'Only entries recorded since the previous sinceLastCall query',
+            },
+            limit: {
+              type: 'number',
+              description: 'Return at most this many (most recent) entries (default: 50)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_dialog_policy',
+        description: 'Set how alert/confirm/prompt/beforeunload dialogs are answered: accept (optionally typing promptText into prompts) or dismiss. once: true answers only the next dialog this way',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            action: {
+              type: 'string',
+              enum: [...DIALOG_ACTIONS],
+            },
+            promptText: {
+              type: 'string',
+              description: 'Text entered into prompt() dialogs when accepting (default: the prompt\'s default value)',
+            },
+            once: {
+              type: 'boolean',
+              description: 'Only answer the next dialog this way, then the policy applies again',
+            },
+          },
+          required: ['action'],
+        },
+      },
+      {
+        name: 'browser_dialogs',
+        description: 'Dialogs seen in this session (type, message, how they were answered), the current policy and any armed one-shot response',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_downloads',
+        description: 'Files downloaded in this session (saved to DOWNLOAD_DIR): name, size, source URL, guessed MIME type and path',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_wait_for_download',
+        description: 'Wait for a download and for it to be saved. With an element target, clicks it to start the download; without, returns the next download not reported yet (e.g. started by the previous click)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            selector: {
+              type: 'string',
+              description: 'CSS selector of the element to click to start the download',
+            },
+            ref: refProperty,
+            locator: locatorProperty,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout for the download to start and finish (default: DEFAULT_TIMEOUT_MS)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_frames',
+        description: 'Frame tree of the active tab: frame names, URLs and iframe selectors, for the "frame" argument of element tools',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_trace_start',
+        description: 'Start a Playwright trace (screenshots, DOM snapshots, sources) of the session. Stop it with browser_trace_stop',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+            name: {
+              type: 'string',
+              description: 'Zip file name in ARTIFACTS_DIR/trace (default: <sessionId>-<timestamp>.zip)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'browser_trace_stop',
+        description: 'Stop tracing and save the trace zip (open it with npx playwright show-trace <zip>). Also stops tracing started by traceMode',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: sessionIdProperty,
+          },
+          required: [],
+        },
+      },
+    ];
+
+    this.sendResult(id, { tools });
+  }
+
+  /**
+   * Handle tools/call request
+   */
+  private async handleToolsCall(params: any, id: string | number | null): Promise<void> {
+    if (!params || typeof params !== 'object') {
+      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid params: expected object');
+      return;
+    }
+
+    const { name, arguments: args } = params;
+
+    if (!name || typeof name !== 'string') {
+      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid params: missing or invalid "name"');
+      return;
+    }
+
+    logger.info(`MCP Server: Calling tool: ${name}`);
+
+    switch (name) {
+      case 'browser_launch':
+        await this.toolBrowserLaunch(args || {}, id);
+        break;
+
+      case 'browser_navigate':
+        await this.toolBrowserNavigate(args || {}, id);
+        break;
+
+      case 'browser_frames':
+        await this.toolBrowserFrames(args || {}, id);
+        break;
+
+      case 'browser_trace_start':
+        await this.toolBrowserTraceStart(args || {}, id);
+        break;
+
+      case 'browser_trace_stop':
+        await this.toolBrowserTraceStop(args || {}, id);
+        break;
+
+      case 'browser_go_back':
+        await this.toolBrowserHistory(args || {}, id, 'back');
+        break;
+
+      case 'browser_go_forward':
+        await this.toolBrowserHistory(args || {}, id, 'forward');
+        break;
+
+      case 'browser_reload':
+        await this.toolBrowserHistory(args || {}, id, 'reload');
+        break;
+
+      case 'browser_screenshot':
+        await this.toolBrowserScreenshot(args || {}, id);
+        break;
+
+      case 'browser_quit':
+        await this.toolBrowserQuit(args || {}, id);
+        break;
+
+      case 'browser_find':
+        await this.toolBrowserFind(args || {}, id);
+        break;
+
+      case 'browser_click':
+        await this.toolBrowserClick(args || {}, id);
+        break;
+
+      case 'browser_type':
+        await this.toolBrowserType(args || {}, id);
+        break;
+
+      case 'browser_tabs_list':
+        await this.toolBrowserTabsList(args || {}, id);
+        break;
+
+      case 'browser_tab_new':
+        await this.toolBrowserTabNew(args || {}, id);
+        break;
+
+      case 'browser_tab_select':
+        await this.toolBrowserTabSelect(args || {}, id);
+        break;
+
+      case 'browser_tab_close':
+        await this.toolBrowserTabClose(args || {}, id);
+        break;
+
+      case 'browser_storage_save':
+        await this.toolBrowserStorageSave(args || {}, id);
+        break;
+
+      case 'browser_storage_load':
+        await this.toolBrowserStorageLoad(args || {}, id);
+        break;
+
+      case 'browser_cookies_get':
+        await this.toolBrowserCookiesGet(args || {}, id);
+        break;
+
+      case 'browser_cookies_set':
+        await this.toolBrowserCookiesSet(args || {}, id);
+        break;
+
+      case 'browser_cookies_clear':
+        await this.toolBrowserCookiesClear(args || {}, id);
+        break;
+
+      case 'browser_web_storage_get':
+        await this.toolBrowserWebStorageGet(args || {}, id);
+        break;
+
+      case 'browser_web_storage_set':
+        await this.toolBrowserWebStorageSet(args || {}, id);
+        break;
+
+      case 'browser_web_storage_clear':
+        await this.toolBrowserWebStorageClear(args || {}, id);
+        break;
+
+      case 'browser_snapshot':
+        await this.toolBrowserSnapshot(args || {}, id);
+        break;
+
+      case 'browser_press_key':
+        await this.toolBrowserPressKey(args || {}, id);
+        break;
+
+      case 'browser_hover':
+        await this.toolBrowserHover(args || {}, id);
+        break;
+
+      case 'browser_double_click':
+        await this.toolBrowserDoubleClick(args || {}, id);
+        break;
+
+      case 'browser_right_click':
+        await this.toolBrowserRightClick(args || {}, id);
+        break;
+
+      case 'browser_drag':
+        await this.toolBrowserDrag(args || {}, id);
+        break;
+
+      case 'browser_select_option':
+        await this.toolBrowserSelectOption(args || {}, id);
+        break;
+
+      case 'browser_check':
+        await this.toolBrowserSetChecked(args || {}, id, true);
+        break;
+
+      case 'browser_uncheck':
+        await this.toolBrowserSetChecked(args || {}, id, false);
+        break;
+
+      case 'browser_upload_files':
+        await this.toolBrowserUploadFiles(args || {}, id);
+        break;
+
+      case 'browser_wait':
+        await this.toolBrowserWait(args || {}, id);
+        break;
+
+      case 'browser_expect':
+        await this.toolBrowserExpect(args || {}, id);
+        break;
+
+      case 'browser_verify':
+        await this.toolBrowserVerify(args || {}, id);
+        break;
+
+      case 'browser_verification_report':
+        await this.toolBrowserVerificationReport(args || {}, id);
+        break;
+
+      case 'browser_route_add':
+        await this.toolBrowserRouteAdd(args || {}, id);
+        break;
+
+      case 'browser_route_list':
+        await this.toolBrowserRouteList(args || {}, id);
+        break;
+
+      case 'browser_route_remove':
+        await this.toolBrowserRouteRemove(args || {}, id);
+        break;
+
+      case 'browser_network_log':
+        await this.toolBrowserNetworkLog(args || {}, id);
+        break;
+
+      case 'browser_console':
+        await this.toolBrowserConsole(args || {}, id);
+        break;
+
+      case 'browser_dialog_policy':
+        await this.toolBrowserDialogPolicy(args || {}, id);
+        break;
+
+      case 'browser_dialogs':
+        await this.toolBrowserDialogs(args || {}, id);
+        break;
+
+      case 'browser_downloads':
+        await this.toolBrowserDownloads(args || {}, id);
+        break;
+
+      case 'browser_wait_for_download':
+        await this.toolBrowserWaitForDownload(args || {}, id);
+        break;
+
+      default:
+        this.sendError(id, ErrorCode.METHOD_NOT_FOUND, `Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Resolve the browser session a tool call targets
+   * 
+   * Uses args.sessionId when given; otherwise falls back to the only open session.
+   * 
+   * @param args - Tool arguments (optional sessionId)
+   * @param id - Request ID for error response
+   * @returns Launched BrowserManager of the session, or null (and error already sent)
+   */
+  private requireSession(args: any, id: string | number | null): BrowserManager | null {
+    const manager = this.findSession(args, id);
+    if (manager === undefined) {
+      return null;
+    }
+
+    if (!manager || !manager.isLaunched()) {
+      this.sendError(
+        id,
+        ErrorCode.NO_BROWSER_SESSION,
+        'No active browser session. Call browser_launch first.'
+      );
+      return null;
+    }
+
+    if (config.consoleErrorsInResults) {
+      this.errorSummarySessions.set(id, manager);
+    }
+
+    return manager;
+  }
+
+  /**
+   * Look up the session a tool call targets, launched or not (e.g. its last tab was closed)
+   * 
+   * @param args - Tool arguments (optional sessionId)
+   * @param id - Request ID for error response
+   * @returns BrowserManager of the session, null if no session is open,
+   *   or undefined (and error already sent) if the sessionId is invalid, unknown or ambiguous
+   */
+  private findSession(args: any, id: string | number | null): BrowserManager | null | undefined {
+    const { sessionId } = args;
+
+    if (sessionId !== undefined && typeof sessionId !== 'string') {
+      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "sessionId" parameter');
+      return undefined;
+    }
+
+    if (sessionId) {
+      const manager = sessionManager.get(sessionId);
+      if (!manager) {
+        this.sendError(
+          id,
+          ErrorCode.NO_BROWSER_SESSION,
+          `Unknown session "${sessionId}". Call browser_launch first.`
+        );
+        return undefined;
+      }
+      return manager;
+    }
+
+    const sessionIds = sessionManager.list();
+    if (sessionIds.length > 1) {
+      this.sendError(
+        id,
+        ErrorCode.INVALID_PARAMS,
+        `Multiple browser sessions open (${sessionIds.join(', ')}). Pass "sessionId".`
+      );
+      return undefined;
+    }
+
+    return sessionIds.length === 1 ? sessionManager.get(sessionIds[0]) : null;
+  }
+
+  /**
+   * Tool: browser_launch
+   */
+  private async toolBrowserLaunch(args: any, id: string | number | null): Promise<void> {
+    const manager = sessionManager.create();
+    const sessionId = manager.getSessionId();
+
+    try {
+      const headless = args.headless === true;
+      const { browserType } = args;
+
+      if (browserType !== undefined && !BROWSER_NAMES.includes(browserType)) {
+        await sessionManager.close(sessionId);
+        this.sendError(
+          id,
+          ErrorCode.INVALID_PARAMS,
+          `Invalid "browserType" parameter. Expected one of: ${BROWSER_NAMES.join(', ')}`
+        );
+        return;
+      }
+      
+      const emulation = this.parseEmulationArgs(args);
+      if (typeof emulation === 'string') {
+        await sessionManager.close(sessionId);
+        this.sendError(id, ErrorCode.INVALID_PARAMS, emulation);
+        return;
+      }
+
+      const { storageState } = args;
+      if (storageState !== undefined && typeof storageState !== 'string') {
+        await sessionManager.close(sessionId);
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "storageState" parameter');
+        return;
+      }
+      
+      const har = this.parseHarArgs(args);
+      if (typeof har === 'string') {
+        await sessionManager.close(sessionId);
+        this.sendError(id, ErrorCode.INVALID_PARAMS, har);
+        return;
+      }
+
+      const { traceMode } = args;
+      if (traceMode !== undefined && !TRACE_MODES.includes(traceMode)) {
+        await sessionManager.close(sessionId);
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid "traceMode" parameter. Expected one of: ${TRACE_MODES.join(', ')}`);
+        return;
+      }
+
+      const { recordVideo } = args;
+      if (recordVideo !== undefined && typeof recordVideo !== 'boolean') {
+        const size = recordVideo?.size;
+        if (typeof recordVideo !== 'object' || recordVideo === null ||
+          (size !== undefined && (typeof size?.width !== 'number' || typeof size?.height !== 'number'))) {
+          await sessionManager.close(sessionId);
+          this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "recordVideo" parameter: expected boolean or { size?: { width: number, height: number } }');
+          return;
+        }
+      }
+
+      let dialogPolicy: DialogPolicy | undefined;
+      if (args.dialogPolicy !== undefined) {
+        const parsed = this.parseDialogPolicy(args.dialogPolicy, 'dialogPolicy.');
+        if (typeof parsed === 'string') {
+          await sessionManager.close(sessionId);
+          this.sendError(id, ErrorCode.INVALID_PARAMS, parsed);
+          return;
+        }
+        dialogPolicy = parsed;
+      }
+
+      logger.info(`MCP Server: Launching browser for ${sessionId} (browserType: ${browserType ?? config.browserType}, headless: ${headless})...`);
+      
+      await manager.launch({ browserType, headless, ...emulation, storageState, ...har, dialogPolicy, traceMode, recordVideo });
+
+      const launchedType = manager.getBrowserType();
+      const settings = manager.getEmulation();
+      const harFiles = manager.getArtifacts().har;
+
+      let resultText = `Browser launched (${launchedType}, headless: ${headless}). sessionId: ${sessionId}`;
+      if (settings) {
+        resultText += `\n${this.formatEmulation(settings)}`;
+      }
+      if (harFiles.length > 0) {
+        resultText += `\nRecording HAR: ${harFiles[0]} (written when the session closes)`;
+      }
+      if (recordVideo ?? config.recordVideo) {
+        resultText += '\nRecording video (saved to ARTIFACTS_DIR/video when the session closes)';
+      }
+      
+      this.sendToolResult(id, resultText, {
+        sessionId,
+        browserType: launchedType,
+        emulation: settings,
+        ...(harFiles.length > 0 && { recordHar: harFiles[0] }),
+      });
+
+      logger.info('MCP Server: Browser launched successfully');
+    } catch (error: any) {
+      await sessionManager.close(sessionId);
+      logger.error(`MCP Server: Error launching browser: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to launch browser: ${error.message}`);
+    }
+  }
+
+  /**
+   * Validate recordHar / replayHar arguments of browser_launch
+   * 
+   * @returns HAR launch options, or an error message for INVALID_PARAMS
+   */
+  private parseHarArgs(args: any): { recordHar?: HarRecordOptions; replayHar?: HarReplayOptions } | string {
+    const options: { recordHar?: HarRecordOptions; replayHar?: HarReplayOptions } = {};
+
+    for (const key of ['recordHar', 'replayHar'] as const) {
+      const value = args[key];
+      if (value === undefined) continue;
+
+      if (typeof value?.path !== 'string' || !value.path) {
+        return `Invalid "${key}" parameter: expected { path: string, urlFilter?: string }`;
+      }
+
+      if (value.urlFilter !== undefined && typeof value.urlFilter !== 'string') {
+        return `Invalid "${key}.urlFilter" parameter: expected string`;
+      }
+
+      let urlFilter: UrlPattern | undefined;
+      try {
+        urlFilter = value.urlFilter ? parseUrlPattern(value.urlFilter) : undefined;
+      } catch (error: any) {
+        return `Invalid "${key}.urlFilter" parameter: ${error.message}`;
+      }
+
+      if (key === 'recordHar') {
+        options.recordHar = { path: value.path, urlFilter };
+      } else {
+        if (value.notFound !== undefined && value.notFound !== 'abort' && value.notFound !== 'fallback') {
+          return 'Invalid "replayHar.notFound" parameter. Expected one of: abort, fallback';
+        }
+        options.replayHar = { path: value.path, urlFilter, notFound: value.notFound };
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Validate emulation arguments of browser_launch
+   * 
+   * @returns Emulation options, or an error message for INVALID_PARAMS
+   */
+  private parseEmulationArgs(args: any): EmulationOptions | string {
+    const { device, viewport, locale, timezoneId, colorScheme, userAgent, geolocation, permissions } = args;
+    const options: EmulationOptions = {};
+
+    for (const [key, value] of Object.entries({ device, locale, timezoneId, userAgent })) {
+      if (value !== undefined && typeof value !== 'string') {
+        return `Invalid "${key}" parameter: expected string`;
+      }
+    }
+
+    if (viewport !== undefined) {
+      if (typeof viewport?.width !== 'number' || typeof viewport?.height !== 'number') {
+        return 'Invalid "viewport" parameter: expected { width: number, height: number }';
+      }
+      options.viewport = { width: viewport.width, height: viewport.height };
+    }
+
+    if (colorScheme !== undefined && !COLOR_SCHEMES.includes(colorScheme)) {
+      return `Invalid "colorScheme" parameter. Expected one of: ${COLOR_SCHEMES.join(', ')}`;
+    }
+
+    if (geolocation !== undefined) {
+      if (typeof geolocation?.latitude !== 'number' || typeof geolocation?.longitude !== 'number') {
+        return 'Invalid "geolocation" parameter: expected { latitude: number, longitude: number }';
+      }
+      options.geolocation = {
+        latitude: geolocation.latitude,
+        longitude: geolocation.longitude,
+        ...(typeof geolocation.accuracy === 'number' && { accuracy: geolocation.accuracy }),
+      };
+    }
+
+    if (permissions !== undefined) {
+      if (!Array.isArray(permissions) || !permissions.every((p) => typeof p === 'string')) {
+        return 'Invalid "permissions" parameter: expected array of strings';
+      }
+      options.permissions = permissions;
+    }
+
+    return {
+      ...options,
+      ...(device && { device }),
+      ...(locale && { locale }),
+      ...(timezoneId && { timezoneId }),
+      ...(colorScheme && { colorScheme }),
+      ...(userAgent && { userAgent }),
+    };
+  }
+
+  /**
+   * Format emulation settings as a single summary line
+   */
+  private formatEmulation(settings: EmulationSettings): string {
+    const viewport = settings.viewport
+      ? `${settings.viewport.width}x${settings.viewport.height}`
+      : 'none';
+
+    const parts = [
+      ...(settings.device ? [`device=${settings.device}`] : []),
+      `viewport=${viewport}@${settings.deviceScaleFactor}x`,
+      `mobile=${settings.isMobile}`,
+      `locale=${settings.locale}`,
+      `timezone=${settings.timezoneId}`,
+      `colorScheme=${settings.colorScheme}`,
+      ...(settings.geolocation
+        ? [`geolocation=${settings.geolocation.latitude},${settings.geolocation.longitude}`]
+        : []),
+      ...(settings.permissions.length > 0 ? [`permissions=${settings.permissions.join(',')}`] : []),
+    ];
+
+    return `Emulation: ${parts.join(' ')}\nUser agent: ${settings.userAgent}`;
+  }
+
+  /**
+   * Tool: browser_navigate
+   */
+  private async toolBrowserNavigate(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { url, waitUntil } = args;
+
+      if (!url || typeof url !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "url" parameter');
+        return;
+      }
+
+      if (waitUntil !== undefined && !NAVIGATION_WAIT_UNTIL.includes(waitUntil)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid waitUntil "${waitUntil}". Use one of: ${NAVIGATION_WAIT_UNTIL.join(', ')}`);
+        return;
+      }
+
+      logger.info(`MCP Server: Navigating to ${url}...`);
+      
+      const result = await manager.navigate(url, { waitUntil });
+
+      this.sendToolResult(id, `Navigated to ${this.formatNavigation(result)}`, result);
+
+      logger.info('MCP Server: Navigation successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error navigating: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to navigate: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tools: browser_go_back, browser_go_forward, browser_reload
+   */
+  private async toolBrowserHistory(
+    args: any,
+    id: string | number | null,
+    action: 'back' | 'forward' | 'reload'
+  ): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { waitUntil } = args;
+
+      if (waitUntil !== undefined && !NAVIGATION_WAIT_UNTIL.includes(waitUntil)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid waitUntil "${waitUntil}". Use one of: ${NAVIGATION_WAIT_UNTIL.join(', ')}`);
+        return;
+      }
+
+      const previousUrl = await manager.getUrl();
+      let result: NavigationResult;
+      let text: string;
+
+      if (action === 'reload') {
+        result = await manager.reload({ waitUntil });
+        text = `Reloaded ${this.formatNavigation(result)}`;
+      } else {
+        result = action === 'back' ? await manager.goBack({ waitUntil }) : await manager.goForward({ waitUntil });
+        text = result.status === undefined && result.url === previousUrl
+          ? `No ${action === 'back' ? 'previous' : 'next'} page in history. Still at ${this.formatNavigation(result)}`
+          : `Went ${action} to ${this.formatNavigation(result)}`;
+      }
+
+      this.sendToolResult(id, text, result);
+    } catch (error: any) {
+      const label = action === 'reload' ? 'reload' : `go ${action}`;
+      logger.error(`MCP Server: Error trying to ${label}: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to ${label}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_screenshot
+   */
+  private async toolBrowserScreenshot(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { filename, returnBase64, fullPage } = args;
+
+      const options: ScreenshotOptions = {
+        fullPage: fullPage === true,
+      };
+
+      let element: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        element = parsed;
+        options.element = parsed;
+      }
+
+      const frame = this.parseFrame(args, id);
+      if (frame === null) return;
+      options.frame = frame;
+
+      const imageOptions = this.parseScreenshotArgs(args);
+      if (typeof imageOptions === 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, imageOptions);
+        return;
+      }
+      Object.assign(options, imageOptions);
+
+      if (element !== undefined && (options.clip || options.fullPage)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Element screenshots cannot be combined with "clip" or "fullPage"');
+        return;
+      }
+      if (frame && element === undefined) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, '"frame" requires an element target (selector, ref or locator)');
+        return;
+      }
+
+      let target = fullPage === true ? 'full page' : 'viewport';
+      if (element !== undefined) {
+        target = this.describeTargetArgs(element, frame);
+      } else if (options.clip) {
+        const { x, y, width, height } = options.clip;
+        target = `region ${width}x${height} at ${x},${y}`;
+      }
+
+      logger.info(`MCP Server: Taking screenshot of ${target} (filename: ${filename || 'none'}, base64: ${returnBase64 || false})...`);
+
+      const limits = this.parseImageLimits(args);
+      if (typeof limits === 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, limits);
+        return;
+      }
+
+      let screenshotPath: string | undefined;
+
+      // If filename is provided, save to file
+      if (filename && typeof filename === 'string') {
+        screenshotPath = path.join(config.screenshotDir, filename);
+        
+        // Ensure screenshot directory exists
+        await ensureDir(config.screenshotDir);
+        
+        options.path = screenshotPath;
+      }
+
+      const buffer = await manager.screenshot(options) as Buffer;
+
+      // If returnBase64 is true, also return the image (scaled down to the limits)
+      let image: FittedImage | undefined;
+      let mimeType: string | undefined;
+      let imageError: string | undefined;
+      if (returnBase64 === true) {
+        const type = resolveScreenshotType(options.type, screenshotPath);
+        mimeType = screenshotMimeType(type);
+        try {
+          image = await manager.fitScreenshot(buffer, type, limits, options.quality);
+        } catch (error: any) {
+          // The file is saved - report it even if the image can't be returned
+          if (!screenshotPath) throw error;
+          imageError = error.message;
+        }
+      }
+
+      // Build result text
+      let resultText = screenshotPath ? `Screenshot saved to ${screenshotPath}` : 'Screenshot captured';
+      if (image) {
+        resultText += ` and returned as ${mimeType} ${image.width}x${image.height} (${image.data.length} bytes)`;
+        if (image.scaled) {
+          resultText += `, scaled down from ${image.original.width}x${image.original.height}`;
+        }
+      }
+      resultText += ` (${target})`;
+      if (imageError) {
+        resultText += `\nImage not returned: ${imageError}`;
+      }
+
+      this.sendToolResult(
+        id,
+        resultText,
+        {
+          ...(screenshotPath && { path: screenshotPath }),
+          ...(image && {
+            mimeType,
+            width: image.width,
+            height: image.height,
+            bytes: image.data.length,
+            scaled: image.scaled,
+          }),
+          ...(imageError && { imageError }),
+        },
+        image && { type: 'image', data: image.data.toString('base64'), mimeType: mimeType! }
+      );
+
+      logger.info('MCP Server: Screenshot successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error taking screenshot: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to take screenshot: ${error.message}`);
+    }
+  }
+
+  /**
+   * Validate the maxWidth / maxHeight / maxBytes arguments of browser_screenshot
+   * Arguments override the SCREENSHOT_MAX_* limits; 0 removes a limit.
+   * 
+   * @returns Image limits, or an error message for INVALID_PARAMS
+   */
+  private parseImageLimits(args: any): ImageLimits | string {
+    const limits = defaultImageLimits();
+
+    for (const key of ['maxWidth', 'maxHeight', 'maxBytes'] as const) {
+      const value = args[key];
+      if (value === undefined) continue;
+
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        return `Invalid "${key}" parameter: expected non-negative integer`;
+      }
+
+      if (value === 0) {
+        delete limits[key];
+      } else {
+        limits[key] = value;
+      }
+    }
+
+    return limits;
+  }
+
+  /**
+   * Validate the image arguments of browser_screenshot (clip, type, quality, masking)
+   * 
+   * @returns Screenshot options, or an error message for INVALID_PARAMS
+   */
+  private parseScreenshotArgs(args: any): ScreenshotOptions | string {
+    const { clip, type, quality, mask, maskSensitive, maskColor, timeoutMs } = args;
+    const options: ScreenshotOptions = {};
+
+    if (clip !== undefined) {
+      if (!clip || typeof clip !== 'object') {
+        return 'Invalid "clip" parameter: expected { x, y, width, height }';
+      }
+      options.clip = { x: clip.x, y: clip.y, width: clip.width, height: clip.height };
+      try {
+        validateScreenshotClip(options.clip);
+      } catch (error: any) {
+        return `Invalid "clip" parameter: ${error.message}`;
+      }
+    }
+
+    if (type !== undefined) {
+      if (!SCREENSHOT_TYPES.includes(type)) {
+        return `Invalid "type" parameter. Expected one of: ${SCREENSHOT_TYPES.join(', ')}`;
+      }
+      options.type = type;
+    }
+
+    if (quality !== undefined) {
+      if (typeof quality !== 'number') {
+        return 'Invalid "quality" parameter: expected number 0-100';
+      }
+      options.quality = quality;
+    }
+
+    if (mask !== undefined) {
+      if (!Array.isArray(mask)) {
+        return 'Invalid "mask" parameter: expected array of selectors or locators';
+      }
+      try {
+        options.mask = mask.map((spec) => parseLocatorSpec(spec));
+      } catch (error: any) {
+        return `Invalid "mask" parameter: ${error.message}`;
+      }
+    }
+
+    if (maskSensitive !== undefined) {
+      if (typeof maskSensitive !== 'boolean') {
+        return 'Invalid "maskSensitive" parameter: expected boolean';
+      }
+      options.maskSensitive = maskSensitive;
+    }
+
+    if (maskColor !== undefined) {
+      if (typeof maskColor !== 'string' || !maskColor) {
+        return 'Invalid "maskColor" parameter: expected CSS color string';
+      }
+      options.maskColor = maskColor;
+    }
+
+    if (timeoutMs !== undefined) {
+      if (typeof timeoutMs !== 'number' || timeoutMs < 0) {
+        return 'Invalid "timeoutMs" parameter: expected non-negative number';
+      }
+      options.timeoutMs = timeoutMs;
+    }
+
+    return options;
+  }
+
+  /**
+   * Tool: browser_quit
+   */
+  private async toolBrowserQuit(args: any, id: string | number | null): Promise<void> {
+    // Not requireSession(): a session whose last tab was closed or crashed must still be closable
+    const manager = this.findSession(args, id);
+    if (manager === undefined) return;
+
+    if (!manager) {
+      // Nothing to close - quitting stays idempotent
+      this.sendToolResult(id, 'No active browser session');
+      return;
+    }
+
+    const sessionId = manager.getSessionId();
+
+    try {
+      logger.info(`MCP Server: Closing browser session ${sessionId}...`);
+
+      // Soft check results are lost with the session - hand them out with the close
+      const verification = manager.getVerificationReport();
+
+      await sessionManager.close(sessionId);
+
+      // Read after closing: some artifacts (HAR, automatic traces, videos) are only written on close
+      const artifacts = manager.getArtifacts();
+
+      let text = `Browser session closed (${sessionId})`;
+      if (artifacts.har.length > 0) {
+        text += `\nHAR: ${artifacts.har.join(', ')}`;
+      }
+      if (artifacts.trace.length > 0) {
+        text += `\nTrace: ${artifacts.trace.join(', ')} (open with npx playwright show-trace <zip>)`;
+      }
+      if (artifacts.video.length > 0) {
+        text += `\nVideo: ${artifacts.video.join(', ')}`;
+      }
+      if (verification.total > 0) {
+        text += `\n${formatVerificationSummary(verification)}`;
+      }
+
+      this.sendToolResult(id, text, {
+        sessionId,
+        artifacts,
+        ...(verification.total > 0 && { verification }),
+      });
+
+      logger.info('MCP Server: Browser session closed successfully');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error closing browser: ${error.message}`);
       this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to close browser: ${error.message}`);
     }
   }
 
   /**
-   * Tool: browser_find
+   * Tool: browser_find
+   */
+  private async toolBrowserFind(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const frame = this.parseFrame(args, id);
+      if (frame === null) return;
+
+      const label = this.describeTargetArgs(target, frame);
+
+      logger.info(`MCP Server: Finding element ${label}...`);
+
+      const info = await manager.getElementInfo(target, { timeoutMs, frame });
+
+      let resultText: string;
+      if (info.found) {
+        const bboxStr = info.boundingBox
+          ? `bbox=(${info.boundingBox.x},${info.boundingBox.y},${info.boundingBox.width},${info.boundingBox.height})`
+          : 'bbox=none';
+        resultText = `Found <${info.tag}> text="${info.text || ''}" ${bboxStr}`;
+      } else {
+        resultText = `Element not found for ${label}`;
+      }
+
+      this.sendToolResult(id, resultText, info);
+
+      logger.info(`MCP Server: Find completed (found: ${info.found})`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error finding element: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to find element: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_click
+   */
+  private async toolBrowserClick(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const frame = this.parseFrame(args, id);
+      if (frame === null) return;
+
+      const label = this.describeTargetArgs(target, frame);
+
+      logger.info(`MCP Server: Clicking ${label}...`);
+
+      const tabsBefore = (await manager.listTabs()).map((tab) => tab.id);
+
+      await manager.click(target, { timeoutMs, frame });
+
+      // Report tabs/popups opened by the click - they do not become active automatically
+      const newTabs = (await manager.listTabs()).filter((tab) => !tabsBefore.includes(tab.id));
+
+      let resultText = `Clicked ${label}`;
+      for (const tab of newTabs) {
+        resultText += `\nNew tab opened: ${tab.id} (${tab.url})`;
+      }
+
+      this.sendToolResult(id, resultText, newTabs.length > 0 ? { newTabs } : undefined);
+
+      logger.info('MCP Server: Click successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error clicking: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to click: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_type
+   */
+  private async toolBrowserType(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { text, timeoutMs, clear } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const frame = this.parseFrame(args, id);
+      if (frame === null) return;
+
+      const label = this.describeTargetArgs(target, frame);
+
+      if (text === undefined || text === null) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing "text" parameter');
+        return;
+      }
+
+      const textStr = String(text);
+
+      logger.info(`MCP Server: Typing into ${label} (${textStr.length} chars)...`);
+
+      await manager.type(target, textStr, { timeoutMs, clear, frame });
+
+      this.sendToolResult(id, `Typed into ${label} (${textStr.length} chars)`);
+
+      logger.info('MCP Server: Type successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error typing: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to type: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_tabs_list
+   */
+  private async toolBrowserTabsList(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const tabs = await manager.listTabs();
+
+      const lines = tabs.map(
+        (tab) => `${tab.active ? '*' : ' '} ${tab.id}: ${tab.title || '(no title)'} - ${tab.url}`
+      );
+
+      this.sendToolResult(id, `${tabs.length} tab(s) open:\n${lines.join('\n')}`, { tabs });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error listing tabs: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to list tabs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_tab_new
+   */
+  private async toolBrowserTabNew(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { url } = args;
+
+      if (url !== undefined && typeof url !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "url" parameter');
+        return;
+      }
+
+      logger.info(`MCP Server: Opening new tab${url ? ` (${url})` : ''}...`);
+
+      const tabId = await manager.newTab(url);
+
+      this.sendToolResult(id, `Opened tab ${tabId}${url ? ` at ${url}` : ''} (active)`, { tabId });
+
+      logger.info('MCP Server: New tab opened');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error opening tab: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to open tab: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_tab_select
+   */
+  private async toolBrowserTabSelect(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { tabId } = args;
+
+      if (!tabId || typeof tabId !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "tabId" parameter');
+        return;
+      }
+
+      logger.info(`MCP Server: Selecting tab ${tabId}...`);
+
+      await manager.selectTab(tabId);
+
+      this.sendToolResult(id, `Active tab: ${tabId}`, { tabId });
+
+      logger.info('MCP Server: Tab selected');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error selecting tab: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to select tab: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_tab_close
+   */
+  private async toolBrowserTabClose(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { tabId } = args;
+
+      if (tabId !== undefined && typeof tabId !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "tabId" parameter');
+        return;
+      }
+
+      const closedId = tabId ?? manager.getActiveTabId();
+
+      logger.info(`MCP Server: Closing tab ${closedId}...`);
+
+      await manager.closeTab(tabId);
+
+      const activeId = manager.getActiveTabId();
+
+      this.sendToolResult(id, `Closed tab ${closedId}. Active tab: ${activeId}`, {
+        closedTabId: closedId,
+        activeTabId: activeId,
+      });
+
+      logger.info('MCP Server: Tab closed');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error closing tab: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to close tab: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_storage_save
+   */
+  private async toolBrowserStorageSave(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { name } = args;
+
+      if (!name || typeof name !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "name" parameter');
+        return;
+      }
+
+      logger.info(`MCP Server: Saving storage state "${name}"...`);
+
+      const statePath = await manager.saveStorageState(name);
+
+      this.sendToolResult(id, `Storage state saved to ${statePath}`, { path: statePath });
+
+      logger.info('MCP Server: Storage state saved');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error saving storage state: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to save storage state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_storage_load
+   */
+  private async toolBrowserStorageLoad(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { name } = args;
+
+      if (!name || typeof name !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "name" parameter');
+        return;
+      }
+
+      logger.info(`MCP Server: Loading storage state "${name}"...`);
+
+      const statePath = await manager.loadStorageState(name);
+      const url = await manager.getUrl();
+
+      this.sendToolResult(id, `Storage state loaded from ${statePath}. Browser context recreated, active tab at ${url}`, {
+        path: statePath,
+        url,
+      });
+
+      logger.info('MCP Server: Storage state loaded');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error loading storage state: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to load storage state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_cookies_get
+   */
+  private async toolBrowserCookiesGet(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const filter = this.parseCookieFilter(args, id);
+      if (!filter) return;
+
+      const cookies = await manager.getCookies(filter);
+
+      const lines = cookies.map(
+        (cookie) => `${cookie.name}=${this.truncate(cookie.value, 100)} (${cookie.domain}${cookie.path})`
+      );
+
+      this.sendToolResult(
+        id,
+        cookies.length > 0 ? `${cookies.length} cookie(s):\n${lines.join('\n')}` : 'No cookies found',
+        { cookies }
+      );
+    } catch (error: any) {
+      logger.error(`MCP Server: Error reading cookies: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to read cookies: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_cookies_set
+   */
+  private async toolBrowserCookiesSet(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { cookies } = args;
+
+      if (
+        !Array.isArray(cookies) ||
+        cookies.length === 0 ||
+        !cookies.every((cookie) => typeof cookie?.name === 'string' && typeof cookie?.value === 'string')
+      ) {
+        this.sendError(
+          id,
+          ErrorCode.INVALID_PARAMS,
+          'Missing or invalid "cookies" parameter: expected non-empty array of { name, value, ... }'
+        );
+        return;
+      }
+
+      await manager.setCookies(cookies as CookieInput[]);
+
+      const names = cookies.map((cookie: CookieInput) => cookie.name).join(', ');
+      this.sendToolResult(id, `Set ${cookies.length} cookie(s): ${names}`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error setting cookies: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to set cookies: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_cookies_clear
+   */
+  private async toolBrowserCookiesClear(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const filter = this.parseCookieFilter(args, id);
+      if (!filter) return;
+
+      const removed = await manager.clearCookies(filter);
+
+      this.sendToolResult(id, `Removed ${removed} cookie(s)`, { removed });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error clearing cookies: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to clear cookies: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_web_storage_get
+   */
+  private async toolBrowserWebStorageGet(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const area = this.parseStorageArea(args, id);
+      if (!area) return;
+
+      const { key } = args;
+      if (key !== undefined && typeof key !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "key" parameter');
+        return;
+      }
+
+      const entries = await manager.getWebStorage(area);
+
+      if (key !== undefined) {
+        const value = entries[key];
+        this.sendToolResult(
+          id,
+          value !== undefined ? `${area}Storage["${key}"] = ${value}` : `${area}Storage has no key "${key}"`,
+          { key, value: value ?? null }
+        );
+        return;
+      }
+
+      const lines = Object.entries(entries).map(([k, v]) => `${k} = ${this.truncate(v, 200)}`);
+
+      this.sendToolResult(
+        id,
+        lines.length > 0 ? `${area}Storage (${lines.length} key(s)):\n${lines.join('\n')}` : `${area}Storage is empty`,
+        { entries }
+      );
+    } catch (error: any) {
+      logger.error(`MCP Server: Error reading web storage: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to read web storage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_web_storage_set
+   */
+  private async toolBrowserWebStorageSet(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const area = this.parseStorageArea(args, id);
+      if (!area) return;
+
+      const { entries } = args;
+      if (
+        !entries ||
+        typeof entries !== 'object' ||
+        Array.isArray(entries) ||
+        !Object.values(entries).every((value) => typeof value === 'string')
+      ) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "entries" parameter: expected object of strings');
+        return;
+      }
+
+      await manager.setWebStorage(area, entries);
+
+      this.sendToolResult(id, `Set ${Object.keys(entries).length} ${area}Storage key(s): ${Object.keys(entries).join(', ')}`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error writing web storage: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to write web storage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_web_storage_clear
+   */
+  private async toolBrowserWebStorageClear(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const area = this.parseStorageArea(args, id);
+      if (!area) return;
+
+      const { keys } = args;
+      if (keys !== undefined && (!Array.isArray(keys) || !keys.every((key) => typeof key === 'string'))) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "keys" parameter: expected array of strings');
+        return;
+      }
+
+      const removed = await manager.clearWebStorage(area, keys);
+
+      this.sendToolResult(id, `Removed ${removed} ${area}Storage key(s)`, { removed });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error clearing web storage: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to clear web storage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_snapshot
+   */
+  private async toolBrowserSnapshot(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      logger.info('MCP Server: Capturing accessibility snapshot...');
+
+      const snapshot = await manager.snapshot();
+
+      let resultText = `Tab ${snapshot.tabId}: ${snapshot.title || '(no title)'} - ${snapshot.url}\n`;
+      resultText += snapshot.text || '(no accessible content)';
+      if (snapshot.truncated) {
+        resultText += '\n(snapshot truncated - page has too many nodes)';
+      }
+
+      const { text, ...data } = snapshot;
+      this.sendToolResult(id, resultText, data);
+
+      logger.info(`MCP Server: Snapshot captured (${snapshot.refCount} refs)`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error capturing snapshot: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to capture snapshot: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_press_key
+   */
+  private async toolBrowserPressKey(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { keys, timeoutMs } = args;
+
+      const validKeys =
+        (typeof keys === 'string' && keys.length > 0) ||
+        (Array.isArray(keys) && keys.length > 0 && keys.every((key) => typeof key === 'string' && key.length > 0));
+
+      if (!validKeys) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "keys" parameter: expected key name or array of key names');
+        return;
+      }
+
+      // Target is optional: without one, keys go to the focused element
+      let target: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        target = parsed;
+      }
+
+      const keyList = Array.isArray(keys) ? keys.join(', ') : keys;
+      const label = target ? ` on ${describeLocator(target)}` : '';
+
+      logger.info(`MCP Server: Pressing ${keyList}${label}...`);
+
+      await manager.press(keys, { target, timeoutMs });
+
+      this.sendToolResult(id, `Pressed ${keyList}${label}`);
+
+      logger.info('MCP Server: Press successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error pressing keys: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to press keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_hover
+   */
+  private async toolBrowserHover(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: Hovering ${label}...`);
+
+      await manager.hover(target, { timeoutMs });
+
+      this.sendToolResult(id, `Hovered over ${label}`);
+
+      logger.info('MCP Server: Hovering successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error hovering: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to hover: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_double_click
+   */
+  private async toolBrowserDoubleClick(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: Double-clicking ${label}...`);
+
+      await manager.doubleClick(target, { timeoutMs });
+
+      this.sendToolResult(id, `Double-clicked ${label}`);
+
+      logger.info('MCP Server: Double-clicking successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error double-clicking: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to double-click: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_right_click
+   */
+  private async toolBrowserRightClick(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: Right-clicking ${label}...`);
+
+      await manager.rightClick(target, { timeoutMs });
+
+      this.sendToolResult(id, `Right-clicked ${label}`);
+
+      logger.info('MCP Server: Right-clicking successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error right-clicking: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to right-click: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_drag
+   */
+  private async toolBrowserDrag(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      let source: LocatorSpec;
+      let destination: LocatorSpec;
+      try {
+        source = parseLocatorSpec(args.from);
+        destination = parseLocatorSpec(args.to);
+      } catch (error: any) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid "from"/"to" parameter: ${error.message}`);
+        return;
+      }
+
+      const label = `${describeLocator(source)} to ${describeLocator(destination)}`;
+
+      logger.info(`MCP Server: Dragging ${label}...`);
+
+      await manager.dragAndDrop(source, destination, { timeoutMs });
+
+      this.sendToolResult(id, `Dragged ${label}`);
+
+      logger.info('MCP Server: Drag successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error dragging: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to drag: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_select_option
+   */
+  private async toolBrowserSelectOption(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { timeoutMs } = args;
+
+      const options = this.parseSelectOptions(args);
+      if (!options) {
+        this.sendError(
+          id,
+          ErrorCode.INVALID_PARAMS,
+          'Provide exactly one of "value" (string or string[]), "label" (string or string[]) or "index" (integer or integer[])'
+        );
+        return;
+      }
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: Selecting option(s) in ${label}...`);
+
+      const selected = await manager.selectOption(target, options, { timeoutMs });
+
+      this.sendToolResult(id, `Selected ${JSON.stringify(selected)} in ${label}`, { selected });
+
+      logger.info('MCP Server: Select option successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error selecting option: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to select option: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_check / browser_uncheck
+   */
+  private async toolBrowserSetChecked(args: any, id: string | number | null, checked: boolean): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    const action = checked ? 'check' : 'uncheck';
+
+    try {
+      const { timeoutMs } = args;
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: ${checked ? 'Checking' : 'Unchecking'} ${label}...`);
+
+      if (checked) {
+        await manager.check(target, { timeoutMs });
+      } else {
+        await manager.uncheck(target, { timeoutMs });
+      }
+
+      this.sendToolResult(id, `${checked ? 'Checked' : 'Unchecked'} ${label}`, { checked });
+
+      logger.info(`MCP Server: ${action} successful`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error on ${action}: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to ${action}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_upload_files
+   */
+  private async toolBrowserUploadFiles(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { files, timeoutMs } = args;
+
+      if (!Array.isArray(files) || !files.every((file) => typeof file === 'string' && file.length > 0)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "files" parameter: expected array of file paths');
+        return;
+      }
+
+      const target = this.parseTarget(args, id);
+      if (!target) return;
+
+      const label = describeLocator(target);
+
+      logger.info(`MCP Server: Uploading ${files.length} file(s) to ${label}...`);
+
+      const uploaded = await manager.uploadFiles(target, files, { timeoutMs });
+
+      const text = uploaded.length > 0
+        ? `Uploaded ${uploaded.length} file(s) to ${label}:\n${uploaded.join('\n')}`
+        : `Cleared files of ${label}`;
+
+      this.sendToolResult(id, text, { files: uploaded });
+
+      logger.info('MCP Server: Upload successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error uploading files: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to upload files: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_wait
+   */
+  private async toolBrowserWait(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { state, text, loadState, timeoutMs } = args;
+
+      if (state !== undefined && !ELEMENT_STATES.includes(state)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid state "${state}". Use one of: ${ELEMENT_STATES.join(', ')}`);
+        return;
+      }
+
+      if (loadState !== undefined && !WAIT_LOAD_STATES.includes(loadState)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid loadState "${loadState}". Use one of: ${WAIT_LOAD_STATES.join(', ')}`);
+        return;
+      }
+
+      if (text !== undefined && (typeof text !== 'string' || !text)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "text" parameter: expected non-empty string');
+        return;
+      }
+
+      let target: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        target = parsed;
+      } else if (state !== undefined) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, '"state" requires an element target (selector, ref or locator)');
+        return;
+      }
+
+      const frame = this.parseFrame(args, id);
+      if (frame === null) return;
+      if (frame && !target) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, '"frame" requires an element target (selector, ref or locator)');
+        return;
+      }
+
+      let url: UrlPattern | undefined;
+      let response: UrlPattern | undefined;
+      try {
+        url = args.url !== undefined ? parseUrlPattern(String(args.url)) : undefined;
+        response = args.response !== undefined ? parseUrlPattern(String(args.response)) : undefined;
+      } catch (error: any) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, error.message);
+        return;
+      }
+
+      if (!target && text === undefined && url === undefined && loadState === undefined && response === undefined) {
+        this.sendError(
+          id,
+          ErrorCode.INVALID_PARAMS,
+          'Provide at least one condition: selector/ref/locator, text, url, loadState or response'
+        );
+        return;
+      }
+
+      logger.info('MCP Server: Waiting for conditions...');
+
+      const result = await manager.waitFor({
+        target,
+        frame,
+        state: state as ElementState | undefined,
+        text,
+        url,
+        loadState: loadState as WaitLoadState | undefined,
+        response,
+        timeoutMs,
+      });
+
+      let resultText = `Conditions met after ${result.elapsedMs}ms: ${result.conditions.join('; ')}\nURL: ${result.url}`;
+      if (result.response) {
+        resultText += `\nResponse: ${result.response.status} ${result.response.url}`;
+      }
+
+      this.sendToolResult(id, resultText, result);
+
+      logger.info('MCP Server: Wait successful');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error waiting: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to wait: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_expect
+   */
+  private async toolBrowserExpect(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { assertion, timeoutMs } = args;
+
+      if (!ASSERTION_NAMES.includes(assertion)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid assertion "${assertion}". Use one of: ${ASSERTION_NAMES.join(', ')}`);
+        return;
+      }
+
+      let target: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        target = parsed;
+      }
+
+      let spec: AssertionSpec;
+      try {
+        spec = { assertion: assertion as AssertionName, expected: this.parseExpected(args.expected), not: args.not === true };
+        validateAssertion(spec, target !== undefined);
+      } catch (error: any) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, error.message);
+        return;
+      }
+
+      logger.info(`MCP Server: Expect ${assertion}...`);
+
+      const result = await manager.expect({ ...spec, target, timeoutMs });
+
+      this.sendToolResult(id, result.message, result);
+
+      logger.info(`MCP Server: Expect ${result.passed ? 'passed' : 'failed'}`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error running assertion: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to run assertion: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_verify
+   */
+  private async toolBrowserVerify(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { check, timeoutMs } = args;
+
+      if (!VERIFICATION_CHECKS.includes(check)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid check "${check}". Use one of: ${VERIFICATION_CHECKS.join(', ')}`);
+        return;
+      }
+
+      let target: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        target = parsed;
+      }
+
+      let expected: string | RegExp | undefined;
+      try {
+        const value = this.parseExpected(args.expected);
+        if (typeof value === 'number') {
+          throw new Error('Invalid "expected" parameter: expected string');
+        }
+        expected = value;
+        validateAssertion(
+          { assertion: assertionForCheck(check, args.exact === true), expected },
+          target !== undefined
+        );
+      } catch (error: any) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, error.message);
+        return;
+      }
+
+      logger.info(`MCP Server: Verify ${check}...`);
+
+      const entry = await manager.verify({
+        check: check as VerificationCheck,
+        target,
+        expected,
+        exact: args.exact === true,
+        not: args.not === true,
+        timeoutMs,
+      });
+
+      let text = `#${entry.index} ${entry.message}`;
+      if (entry.screenshot) {
+        text += `\nScreenshot: ${entry.screenshot}`;
+      }
+
+      this.sendToolResult(id, text, entry);
+
+      logger.info(`MCP Server: Verify ${entry.passed ? 'passed' : 'failed'}`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error verifying: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to verify: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_verification_report
+   */
+  private async toolBrowserVerificationReport(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const summary = manager.getVerificationReport();
+
+      if (args.reset === true) {
+        manager.clearVerificationReport();
+      }
+
+      this.sendToolResult(id, formatVerificationSummary(summary), summary);
+
+      logger.info(`MCP Server: Verification report (${summary.passed} passed, ${summary.failed} failed)`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error building verification report: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to build verification report: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_route_add
+   */
+  private async toolBrowserRouteAdd(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { times } = args;
+
+      if (typeof args.url !== 'string' || !args.url) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "url" parameter');
+        return;
+      }
+
+      if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "times" parameter: expected positive integer');
+        return;
+      }
+
+      let url: UrlPattern;
+      let action: RouteAction;
+      try {
+        url = parseUrlPattern(args.url);
+        action = this.parseRouteAction(args);
+      } catch (error: any) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, error.message);
+        return;
+      }
+
+      logger.info(`MCP Server: Adding route ${args.url} (${action.type})...`);
+
+      const route = await manager.addRoute({ url, action, times });
+
+      this.sendToolResult(id, `Route ${route.id} added: ${route.url} -> ${route.description}`, route);
+
+      logger.info('MCP Server: Route added');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error adding route: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to add route: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_route_list
    */
-  private async toolBrowserFind(args: any, id: string | number | null): Promise<void> {
-    if (!this.requireSession(id)) return;
+  private async toolBrowserRouteList(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const routes = manager.listRoutes();
+
+      const text = routes.length > 0
+        ? routes.map((route) => this.formatRoute(route)).join('\n')
+        : 'No routes';
+
+      this.sendToolResult(id, text, { routes });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error listing routes: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to list routes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_route_remove
+   */
+  private async toolBrowserRouteRemove(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
 
     try {
-      const { selector, timeoutMs } = args;
+      const { routeId, all } = args;
 
-      if (!selector || typeof selector !== 'string') {
-        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "selector" parameter');
+      if ((routeId === undefined) === (all !== true)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Provide either "routeId" or "all": true');
         return;
       }
 
-      logger.info(`MCP Server: Finding element "${selector}"...`);
+      if (routeId !== undefined && typeof routeId !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "routeId" parameter');
+        return;
+      }
 
-      const info = await browserManager.getElementInfo(selector, { timeoutMs });
+      const removed = await manager.removeRoute(routeId);
 
-      let resultText: string;
-      if (info.found) {
-        const bboxStr = info.boundingBox
-          ? `bbox=(${info.boundingBox.x},${info.boundingBox.y},${info.boundingBox.width},${info.boundingBox.height})`
-          : 'bbox=none';
-        resultText = `Found <${info.tag}> text="${info.text || ''}" ${bboxStr}`;
-      } else {
-        resultText = `Element not found for selector "${selector}"`;
+      this.sendToolResult(id, routeId ? `Route ${routeId} removed` : `${removed} route(s) removed`, { removed });
+
+      logger.info(`MCP Server: ${removed} route(s) removed`);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error removing route: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to remove route: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_network_log
+   */
+  private async toolBrowserNetworkLog(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { requestId, statusMin, statusMax, urlContains, resourceType, failed, sinceLastCall } = args;
+
+      if (requestId !== undefined) {
+        if (typeof requestId !== 'string' || !requestId) {
+          this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "requestId" parameter');
+          return;
+        }
+
+        const body = await manager.getResponseBody(requestId);
+
+        const header = `${formatNetworkEntry(body.entry)}\nContent-Type: ${body.contentType || 'unknown'}, ${body.size} bytes` +
+          (body.encoding === 'base64' ? ' (base64)' : '') +
+          (body.truncated ? ', truncated' : '');
+
+        this.sendToolResult(id, `${header}\n\n${body.body}`, body);
+        return;
       }
 
-      this.sendToolResult(id, resultText, info);
+      for (const [key, value] of Object.entries({ statusMin, statusMax })) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+          this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid "${key}" parameter: expected HTTP status`);
+          return;
+        }
+      }
 
-      logger.info(`MCP Server: Find completed (found: ${info.found})`);
+      for (const [key, value] of Object.entries({ urlContains, resourceType })) {
+        if (value !== undefined && typeof value !== 'string') {
+          this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid "${key}" parameter: expected string`);
+          return;
+        }
+      }
+
+      const limit = args.limit ?? 50;
+      if (!Number.isInteger(limit) || limit < 1) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "limit" parameter: expected positive integer');
+        return;
+      }
+
+      const filter: NetworkFilter = {
+        statusMin,
+        statusMax,
+        urlContains,
+        resourceType,
+        failed: failed === true,
+        sinceLastCall: sinceLastCall === true,
+        limit,
+      };
+
+      const result = manager.getNetworkLog(filter);
+
+      let text = result.entries.length > 0
+        ? result.entries.map((entry) => formatNetworkEntry(entry)).join('\n')
+        : 'No matching requests';
+      if (result.matched > result.entries.length) {
+        text += `\n(${result.matched - result.entries.length} older matching request(s) not shown, raise "limit")`;
+      }
+      if (result.dropped > 0) {
+        text += `\n(${result.dropped} oldest request(s) dropped from the log)`;
+      }
+
+      this.sendToolResult(id, text, result);
     } catch (error: any) {
-      logger.error(`MCP Server: Error finding element: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to find element: ${error.message}`);
+      logger.error(`MCP Server: Error reading network log: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to read network log: ${error.message}`);
     }
   }
 
   /**
-   * Tool: browser_click
+   * Tool: browser_console
    */
-  private async toolBrowserClick(args: any, id: string | number | null): Promise<void> {
-    if (!this.requireSession(id)) return;
+  private async toolBrowserConsole(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
 
     try {
-      const { selector, timeoutMs } = args;
+      const { level, textContains, sinceLastCall } = args;
 
-      if (!selector || typeof selector !== 'string') {
-        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "selector" parameter');
+      if (level !== undefined && !CONSOLE_LEVELS.includes(level)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid level "${level}". Use one of: ${CONSOLE_LEVELS.join(', ')}`);
         return;
       }
 
-      logger.info(`MCP Server: Clicking selector "${selector}"...`);
+      if (textContains !== undefined && typeof textContains !== 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "textContains" parameter: expected string');
+        return;
+      }
 
-      await browserManager.click(selector, { timeoutMs });
+      const limit = args.limit ?? 50;
+      if (!Number.isInteger(limit) || limit < 1) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "limit" parameter: expected positive integer');
+        return;
+      }
 
-      this.sendToolResult(id, `Clicked selector "${selector}"`);
+      const result = manager.getConsoleMessages({
+        level: level as ConsoleLevel | undefined,
+        textContains,
+        sinceLastCall: sinceLastCall === true,
+        limit,
+      });
+
+      // Everything is listed here - don't repeat errors as a summary
+      manager.takeNewConsoleErrors();
+
+      let text = result.entries.length > 0
+        ? result.entries.map((entry) => formatConsoleEntry(entry)).join('\n')
+        : 'No matching console messages';
+      if (result.matched > result.entries.length) {
+        text += `\n(${result.matched - result.entries.length} older matching message(s) not shown, raise "limit")`;
+      }
+      if (result.dropped > 0) {
+        text += `\n(${result.dropped} oldest message(s) dropped from the log)`;
+      }
 
-      logger.info('MCP Server: Click successful');
+      this.sendToolResult(id, text, result);
     } catch (error: any) {
-      logger.error(`MCP Server: Error clicking: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to click: ${error.message}`);
+      logger.error(`MCP Server: Error reading console: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to read console: ${error.message}`);
     }
   }
 
   /**
-   * Tool: browser_type
+   * Tool: browser_dialog_policy
    */
-  private async toolBrowserType(args: any, id: string | number | null): Promise<void> {
-    if (!this.requireSession(id)) return;
+  private async toolBrowserDialogPolicy(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
 
     try {
-      const { selector, text, timeoutMs, clear } = args;
-
-      if (!selector || typeof selector !== 'string') {
-        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing or invalid "selector" parameter');
+      const policy = this.parseDialogPolicy(args, '');
+      if (typeof policy === 'string') {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, policy);
         return;
       }
 
-      if (text === undefined || text === null) {
-        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Missing "text" parameter');
+      const once = args.once === true;
+      manager.setDialogPolicy(policy, once);
+
+      const text = once
+        ? `Next dialog will be answered: ${describeDialogPolicy(policy)}`
+        : `Dialog policy: ${describeDialogPolicy(policy)}`;
+
+      this.sendToolResult(id, text, { policy, once });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error setting dialog policy: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to set dialog policy: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_dialogs
+   */
+  private async toolBrowserDialogs(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const result = manager.getDialogs();
+
+      const lines = [`Policy: ${describeDialogPolicy(result.policy)}`];
+      if (result.next) {
+        lines.push(`Next dialog (one-shot): ${describeDialogPolicy(result.next)}`);
+      }
+      lines.push(result.dialogs.length > 0 ? `Dialogs (${result.dialogs.length}):` : 'No dialogs yet');
+      result.dialogs.forEach((record, index) => lines.push(`${index + 1}. ${formatDialogRecord(record)}`));
+      if (result.dropped > 0) {
+        lines.push(`(${result.dropped} oldest dialog(s) dropped from the history)`);
+      }
+
+      this.sendToolResult(id, lines.join('\n'), result);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error reading dialogs: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to read dialogs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_downloads
+   */
+  private async toolBrowserDownloads(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const downloads = manager.getDownloads();
+
+      const text = downloads.length > 0
+        ? downloads.map((download) => `${formatDownload(download)}${download.path ? `\n  ${download.path}` : ''}`).join('\n')
+        : 'No downloads yet';
+
+      this.sendToolResult(id, text, { downloads });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error listing downloads: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to list downloads: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_wait_for_download
+   */
+  private async toolBrowserWaitForDownload(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      let trigger: LocatorSpec | undefined;
+      if (args.selector !== undefined || args.ref !== undefined || args.locator !== undefined) {
+        const parsed = this.parseTarget(args, id);
+        if (!parsed) return;
+        trigger = parsed;
+      }
+
+      const download = await manager.waitForDownload({ trigger, timeoutMs: args.timeoutMs });
+
+      let text = formatDownload(download);
+      if (download.path) {
+        text += `\nSaved to ${download.path}`;
+      }
+
+      this.sendToolResult(id, text, download);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error waiting for download: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to wait for download: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_frames
+   */
+  private async toolBrowserFrames(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const tree = await manager.getFrames();
+      this.sendToolResult(id, formatFrameTree(tree), tree);
+    } catch (error: any) {
+      logger.error(`MCP Server: Error listing frames: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to list frames: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_trace_start
+   */
+  private async toolBrowserTraceStart(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const { name } = args;
+
+      if (name !== undefined && (typeof name !== 'string' || !name)) {
+        this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "name" parameter: expected non-empty string');
         return;
       }
 
-      const textStr = String(text);
+      await manager.startTracing(name);
+
+      this.sendToolResult(id, 'Tracing started. Call browser_trace_stop to save the trace');
+    } catch (error: any) {
+      logger.error(`MCP Server: Error starting trace: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to start tracing: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tool: browser_trace_stop
+   */
+  private async toolBrowserTraceStop(args: any, id: string | number | null): Promise<void> {
+    const manager = this.requireSession(args, id);
+    if (!manager) return;
+
+    try {
+      const tracePath = await manager.stopTracing();
+
+      this.sendToolResult(id, `Trace saved: ${tracePath}\nOpen with: npx playwright show-trace ${tracePath}`, { path: tracePath });
+    } catch (error: any) {
+      logger.error(`MCP Server: Error stopping trace: ${error.message}`);
+      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to stop tracing: ${error.message}`);
+    }
+  }
 
-      logger.info(`MCP Server: Typing into "${selector}" (${textStr.length} chars)...`);
+  /**
+   * Build select options from exactly one of value / label / index (single or array)
+   * 
+   * @returns Options or null if the arguments are invalid
+   */
+  private parseSelectOptions(args: any): SelectOptionInput[] | null {
+    const given = (['value', 'label', 'index'] as const).filter((key) => args[key] !== undefined);
+    if (given.length !== 1) {
+      return null;
+    }
 
-      await browserManager.type(selector, textStr, { timeoutMs, clear });
+    const key = given[0];
+    const values: unknown[] = Array.isArray(args[key]) ? args[key] : [args[key]];
+    if (values.length === 0) {
+      return null;
+    }
 
-      this.sendToolResult(id, `Typed into "${selector}" (${textStr.length} chars)`);
+    if (key === 'index') {
+      if (!values.every((value) => Number.isInteger(value) && (value as number) >= 0)) return null;
+      return values.map((value) => ({ index: value as number }));
+    }
 
-      logger.info('MCP Server: Type successful');
+    if (!values.every((value) => typeof value === 'string')) return null;
+    return values.map((value) => (key === 'value' ? { value: value as string } : { label: value as string }));
+  }
+
+  /**
+   * Parse an expected assertion value: numbers as-is, "/regex/flags" strings as RegExp
+   * 
+   * @throws Error if the value is neither string nor number, or the regex is invalid
+   */
+  private parseExpected(value: unknown): ExpectedValue | undefined {
+    if (value === undefined || typeof value === 'number') {
+      return value;
+    }
+
+    if (typeof value !== 'string') {
+      throw new Error('Invalid "expected" parameter: expected string or number');
+    }
+
+    return parseRegexLiteral(value) ?? value;
+  }
+
+  /**
+   * Build a route action from browser_route_add arguments
+   * 
+   * @throws Error describing invalid or mismatched arguments
+   */
+  private parseRouteAction(args: any): RouteAction {
+    const { action, status, headers, contentType, body, fixture, errorCode, removeHeaders } = args;
+
+    if (!ROUTE_ACTION_TYPES.includes(action)) {
+      throw new Error(`Invalid action "${action}". Use one of: ${ROUTE_ACTION_TYPES.join(', ')}`);
+    }
+
+    if (
+      headers !== undefined &&
+      (!headers ||
+        typeof headers !== 'object' ||
+        Array.isArray(headers) ||
+        !Object.values(headers).every((value) => typeof value === 'string'))
+    ) {
+      throw new Error('Invalid "headers" parameter: expected object of string values');
+    }
+
+    if (action === 'abort') {
+      if (errorCode !== undefined && !ABORT_ERROR_CODES.includes(errorCode)) {
+        throw new Error(`Invalid errorCode "${errorCode}". Use one of: ${ABORT_ERROR_CODES.join(', ')}`);
+      }
+      return { type: 'abort', errorCode: errorCode as AbortErrorCode | undefined };
+    }
+
+    if (action === 'continue') {
+      if (removeHeaders !== undefined &&
+          (!Array.isArray(removeHeaders) || !removeHeaders.every((name) => typeof name === 'string'))) {
+        throw new Error('Invalid "removeHeaders" parameter: expected array of header names');
+      }
+      return { type: 'continue', headers, removeHeaders };
+    }
+
+    if (status !== undefined && (!Number.isInteger(status) || status < 100 || status > 599)) {
+      throw new Error('Invalid "status" parameter: expected HTTP status code (100-599)');
+    }
+
+    if (body !== undefined && fixture !== undefined) {
+      throw new Error('Use either "body" or "fixture", not both');
+    }
+
+    if (fixture !== undefined && (typeof fixture !== 'string' || !fixture)) {
+      throw new Error('Invalid "fixture" parameter: expected file path');
+    }
+
+    // Objects and arrays are sent as JSON
+    const isJson = body !== undefined && typeof body !== 'string';
+
+    return {
+      type: 'fulfill',
+      status,
+      headers,
+      contentType: contentType ?? (isJson ? 'application/json' : undefined),
+      body: isJson ? JSON.stringify(body) : body,
+      fixture,
+    };
+  }
+
+  /**
+   * Format a route for browser_route_list
+   * Example: route-1 /api\/cart/ -> fulfill 500 (hits: 2/3)
+   */
+  private formatRoute(route: RouteInfo): string {
+    const hits = route.times !== undefined ? `${route.hits}/${route.times}` : String(route.hits);
+    return `${route.id} ${route.url} -> ${route.description} (hits: ${hits})`;
+  }
+
+  /**
+   * Summarize new page errors for a tool result (at most 5 lines)
+   */
+  private formatConsoleErrorSummary(errors: ConsoleEntry[]): string {
+    const shown = errors.slice(-5);
+    const lines = [`New page errors (${errors.length}):`, ...shown.map((entry) => `- ${formatConsoleEntry(entry)}`)];
+
+    if (errors.length > shown.length) {
+      lines.push(`- ... ${errors.length - shown.length} more, see browser_console`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Validate a dialog policy ({ action, promptText? })
+   * 
+   * @param prefix - Parameter name prefix for error messages (e.g. "dialogPolicy.")
+   * @returns The policy, or an error message for INVALID_PARAMS
+   */
+  private parseDialogPolicy(value: any, prefix: string): DialogPolicy | string {
+    if (!DIALOG_ACTIONS.includes(value?.action)) {
+      return `Invalid "${prefix}action" parameter. Expected one of: ${DIALOG_ACTIONS.join(', ')}`;
+    }
+
+    if (value.promptText !== undefined && typeof value.promptText !== 'string') {
+      return `Invalid "${prefix}promptText" parameter: expected string`;
+    }
+
+    return {
+      action: value.action,
+      ...(value.promptText !== undefined && { promptText: value.promptText }),
+    };
+  }
+
+  /**
+   * Format a navigation result, e.g. https://shop.test/cart (200 OK) "Your cart"
+   */
+  private formatNavigation(result: NavigationResult): string {
+    const status = result.status !== undefined ? ` (${result.status}${result.statusText ? ` ${result.statusText}` : ''})` : '';
+    return `${result.url}${status} ${JSON.stringify(result.title)}`;
+  }
+
+  /**
+   * Validate the optional "frame" argument of element tools
+   * 
+   * @returns Frame target, undefined if not given, or null if invalid (and error already sent)
+   */
+  private parseFrame(args: any, id: string | number | null): FrameTarget | undefined | null {
+    if (args.frame === undefined) {
+      return undefined;
+    }
+
+    try {
+      return parseFrameTarget(args.frame);
     } catch (error: any) {
-      logger.error(`MCP Server: Error typing: ${error.message}`);
-      this.sendError(id, ErrorCode.INTERNAL_ERROR, `Failed to type: ${error.message}`);
+      this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid "frame" parameter: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Describe an element target for results, including its frame
+   */
+  private describeTargetArgs(target: LocatorSpec, frame?: FrameTarget): string {
+    return frame ? `${describeLocator(target)} in ${describeFrame(frame)}` : describeLocator(target);
+  }
+
+  /**
+   * Validate the element target arguments: exactly one of "selector", "ref" or "locator"
+   * 
+   * @returns Locator spec, or null if invalid (and error already sent)
+   */
+  private parseTarget(args: any, id: string | number | null): LocatorSpec | null {
+    const { selector, ref, locator } = args;
+    const given = [selector, ref, locator].filter((value) => value !== undefined).length;
+
+    if (given !== 1) {
+      this.sendError(
+        id,
+        ErrorCode.INVALID_PARAMS,
+        given === 0
+          ? 'Missing element target: pass "selector", "ref" or "locator"'
+          : 'Pass only one of "selector", "ref" or "locator"'
+      );
+      return null;
+    }
+
+    try {
+      if (ref !== undefined) {
+        return parseLocatorSpec({ ref });
+      }
+      if (locator !== undefined) {
+        return parseLocatorSpec(locator);
+      }
+      if (typeof selector !== 'string') {
+        throw new Error('"selector" must be a string');
+      }
+      return parseLocatorSpec(selector);
+    } catch (error: any) {
+      this.sendError(id, ErrorCode.INVALID_PARAMS, `Invalid element target: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Validate the domain/name cookie filter arguments
+   * 
+   * @returns Filter, or null if invalid (and error already sent)
+   */
+  private parseCookieFilter(args: any, id: string | number | null): { domain?: string; name?: string } | null {
+    const { domain, name } = args;
+
+    if ((domain !== undefined && typeof domain !== 'string') || (name !== undefined && typeof name !== 'string')) {
+      this.sendError(id, ErrorCode.INVALID_PARAMS, 'Invalid "domain" or "name" parameter');
+      return null;
+    }
+
+    return { domain, name };
+  }
+
+  /**
+   * Validate the web storage "area" argument
+   * 
+   * @returns Storage area, or null if invalid (and error already sent)
+   */
+  private parseStorageArea(args: any, id: string | number | null): WebStorageArea | null {
+    if (!WEB_STORAGE_AREAS.includes(args.area)) {
+      this.sendError(
+        id,
+        ErrorCode.INVALID_PARAMS,
+        `Missing or invalid "area" parameter. Expected one of: ${WEB_STORAGE_AREAS.join(', ')}`
+      );
+      return null;
     }
+    return args.area;
+  }
+
+  /**
+   * Truncate long values for result text (full values are returned in data)
+   */
+  private truncate(value: string, maxLength: number): string {
+    return value.length > maxLength ? value.substring(0, maxLength) + '...' : value;
   }
 
   /**
@@ -633,13 +3995,23 @@ export class MCPServer {
    * Send tool result with standard content format
    * Helper to simplify tool responses
    */
-  private sendToolResult(id: string | number | null, text: string, data?: any): void {
+  private sendToolResult(id: string | number | null, text: string, data?: any, image?: ImageContent): void {
+    const manager = this.errorSummarySessions.get(id);
+    this.errorSummarySessions.delete(id);
+
+    // Errors the app threw since the last result, so agents notice them without asking
+    const consoleErrors = manager?.takeNewConsoleErrors() ?? [];
+    if (consoleErrors.length > 0) {
+      text += `\n\n${this.formatConsoleErrorSummary(consoleErrors)}`;
+    }
+
     const result: any = {
       content: [
         {
           type: 'text',
           text,
         },
+        ...(image ? [image] : []),
       ],
     };
 
@@ -669,6 +4041,8 @@ export class MCPServer {
       },
     };
 
+    this.errorSummarySessions.delete(id);
+
     // Write to stdout (NOT stderr - this is the JSON-RPC channel)
     process.stdout.write(JSON.stringify(response) + '\n');
     
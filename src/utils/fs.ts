@@ -53,6 +53,71 @@ export function resolveAbsolute(filePath: string): string {
   return path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
 }
 
+/**
+ * Resolve a path inside a root directory, rejecting paths that escape it
+ * (e.g. "../secrets.json", an absolute path elsewhere, or a symlink inside the root
+ * that points outside of it)
+ * 
+ * @param rootDir - Root directory (relative paths resolved from cwd)
+ * @param filePath - Path relative to rootDir (or absolute path inside rootDir)
+ * @returns Absolute path inside rootDir
+ * @throws Error if the resolved path is outside rootDir
+ */
+export function resolveWithin(rootDir: string, filePath: string): string {
+  const root = resolveAbsolute(rootDir);
+  const resolved = path.resolve(root, filePath);
+
+  if (!isInside(root, resolved) || !isInside(realPath(root), realPath(resolved))) {
+    throw new Error(`Path "${filePath}" is outside of ${root}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a path is strictly inside a directory (both absolute)
+ */
+function isInside(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+
+  return relative !== '' &&
+    relative !== '..' &&
+    !relative.startsWith('..' + path.sep) &&
+    !path.isAbsolute(relative);
+}
+
+/**
+ * Path with symlinks resolved, for paths that do not exist (yet) through their closest existing parent
+ */
+function realPath(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    const parent = path.dirname(filePath);
+    return parent === filePath ? filePath : path.join(realPath(parent), path.basename(filePath));
+  }
+}
+
+/**
+ * Turn an untrusted name (e.g. a download's suggested filename) into a safe file name
+ * Keeps letters, digits, ".", "-" and "_"; drops directory parts and leading dots; max 100 characters.
+ * 
+ * @param name - Untrusted name
+ * @param fallback - Name used when nothing usable is left
+ * @returns File name safe on Windows and Unix
+ */
+export function toSafeFileName(name: string, fallback: string): string {
+  const baseName = name.split(/[\\/]/).pop() ?? '';
+  const extension = path.extname(baseName).replace(/[^a-zA-Z0-9.]/g, '').substring(0, 10);
+  const stem = baseName
+    .substring(0, baseName.length - path.extname(baseName).length)
+    .replace(/[^a-zA-Z0-9._-]+/g, '_')
+    .replace(/^[._]+|_+$/g, '')
+    .substring(0, 100 - extension.length);
+
+  return stem ? `${stem}${extension}` : `${fallback}${extension}`;
+}
+
 /**
  * Clean a directory by removing all files (but keeping the directory)
  * Does not remove subdirectories, only files
@@ -0,0 +1,94 @@
+/**
+ * Image helpers - dimensions of PNG and JPEG data
+ *
+ * Only the headers are read (no decoding), which is enough to decide
+ * whether a screenshot has to be scaled down before it is handed out.
+ */
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Width and height of PNG or JPEG data
+ *
+ * @returns Size, or null if the data is neither PNG nor JPEG (or is truncated)
+ */
+export function readImageSize(data: Buffer): ImageSize | null {
+  if (data.length >= 24 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    // IHDR is always the first chunk
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data);
+  }
+
+  return null;
+}
+
+/**
+ * Walk the JPEG segments up to the first start-of-frame marker
+ */
+function readJpegSize(data: Buffer): ImageSize | null {
+  let offset = 2;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = data[offset + 1];
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > data.length) {
+        return null;
+      }
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Largest size with the same aspect ratio that fits within the limits (never upscaled)
+ *
+ * @param size - Original size
+ * @param maxWidth - Maximum width (no limit if undefined)
+ * @param maxHeight - Maximum height (no limit if undefined)
+ */
+export function fitWithin(size: ImageSize, maxWidth?: number, maxHeight?: number): ImageSize {
+  const scale = Math.min(
+    1,
+    maxWidth !== undefined ? maxWidth / size.width : 1,
+    maxHeight !== undefined ? maxHeight / size.height : 1
+  );
+
+  if (scale >= 1) {
+    return { ...size };
+  }
+
+  return {
+    width: Math.max(1, Math.floor(size.width * scale)),
+    height: Math.max(1, Math.floor(size.height * scale)),
+  };
+}
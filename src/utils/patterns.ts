@@ -0,0 +1,102 @@
+/**
+ * URL patterns - glob strings or regular expressions
+ *
+ * Tools receive patterns as strings. A string written as "/regex/flags" is a
+ * regular expression; anything else is a Playwright URL glob ("**\/api/*",
+ * "https://example.com/**"), where "*" matches within a path segment and
+ * "**" matches across segments.
+ */
+
+export type UrlPattern = string | RegExp;
+
+// "/body/flags" - flags limited to the ones valid for RegExp
+const REGEX_LITERAL = /^\/(.+)\/([dgimsuvy]*)$/;
+
+// Flags that make test() stateful (lastIndex) - a pattern must match the same URL every time
+const STATEFUL_FLAGS = /[gy]/;
+
+/**
+ * Parse a "/regex/flags" string
+ *
+ * @returns RegExp, or null if the value is not written as a regex literal
+ * @throws Error if it looks like a regex literal but does not compile or uses the g/y flags
+ */
+export function parseRegexLiteral(value: string): RegExp | null {
+  const match = REGEX_LITERAL.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  if (STATEFUL_FLAGS.test(match[2])) {
+    throw new Error(`Invalid regex ${value}: the g and y flags are not supported`);
+  }
+
+  try {
+    return new RegExp(match[1], match[2]);
+  } catch (error: any) {
+    throw new Error(`Invalid regex ${value}: ${error.message}`);
+  }
+}
+
+/**
+ * Parse a pattern string into a glob string or RegExp
+ *
+ * @param value - Glob (e.g. "**\/inventory.html") or "/regex/flags" (e.g. "/\/api\/cart\/\d+/i")
+ * @throws Error if the value is empty or the regex is invalid
+ */
+export function parseUrlPattern(value: string): UrlPattern {
+  if (!value) {
+    throw new Error('URL pattern must not be empty');
+  }
+
+  return parseRegexLiteral(value) ?? value;
+}
+
+/**
+ * Convert a URL glob to a RegExp matching whole URLs
+ * "**" matches any characters, "*" any characters except "/",
+ * "{a,b}" either alternative; everything else is literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '{') {
+      source += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a URL matches a glob or RegExp
+ */
+export function matchesUrlPattern(url: string, pattern: UrlPattern): boolean {
+  return typeof pattern === 'string' ? globToRegExp(pattern).test(url) : pattern.test(url);
+}
+
+/**
+ * Describe a pattern for logs and messages ("**\/cart" or /\/api\//i)
+ */
+export function describeUrlPattern(pattern: UrlPattern): string {
+  return typeof pattern === 'string' ? `"${pattern}"` : pattern.toString();
+}
@@ -0,0 +1,91 @@
+/**
+ * Fixed-capacity buffer that keeps the most recent items
+ *
+ * Pushing into a full buffer drops the oldest item. Every item gets a
+ * sequence number (1, 2, ...) that keeps increasing, so readers can ask for
+ * "everything after the item I saw last" even when older items were dropped.
+ */
+
+export interface Sequenced<T> {
+  seq: number;
+  item: T;
+}
+
+export class RingBuffer<T> {
+  private items: Array<Sequenced<T>> = [];
+  private nextSeq = 1;
+  private droppedCount = 0;
+
+  /**
+   * @param capacity - Maximum number of items kept (at least 1)
+   */
+  constructor(private readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Ring buffer capacity must be a positive integer (got ${capacity})`);
+    }
+  }
+
+  /**
+   * Add an item, dropping the oldest one if the buffer is full
+   *
+   * @returns Sequence number of the item
+   */
+  push(item: T): number {
+    const seq = this.nextSeq++;
+    this.items.push({ seq, item });
+
+    if (this.items.length > this.capacity) {
+      this.items.shift();
+      this.droppedCount++;
+    }
+
+    return seq;
+  }
+
+  /**
+   * Items in insertion order (oldest first)
+   *
+   * @param afterSeq - Only items with a sequence number greater than this
+   */
+  toArray(afterSeq = 0): T[] {
+    return this.entries(afterSeq).map((entry) => entry.item);
+  }
+
+  /**
+   * Items with their sequence numbers (oldest first)
+   *
+   * @param afterSeq - Only items with a sequence number greater than this
+   */
+  entries(afterSeq = 0): Array<Sequenced<T>> {
+    return this.items.filter((entry) => entry.seq > afterSeq);
+  }
+
+  /**
+   * Sequence number of the newest item (0 if nothing was pushed yet)
+   */
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /**
+   * Number of items currently kept
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Number of items dropped because the buffer was full
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Remove all items (sequence numbers keep increasing)
+   */
+  clear(): void {
+    this.items = [];
+    this.droppedCount = 0;
+  }
+}
@@ -1,5 +1,10 @@
 import { test, expect } from '@playwright/test';
 import { browserManager } from '../src/core/browserManager';
+import { artifactDir } from '../src/core/artifacts';
+import { BROWSER_NAMES, BrowserName, config } from '../src/core/config';
+import { chromium, firefox, webkit } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
 
 /**
  * Example test suite showing how to clean screenshots before tests
@@ -63,6 +68,795 @@ test.describe('BrowserManager Tests with Screenshot Cleanup', () => {
   });
 });
 
+test.describe('Browser types', () => {
+  test('rejects unknown browser types', async () => {
+    await expect(browserManager.launch({ browserType: 'bogus' as BrowserName })).rejects.toThrow(
+      'Unknown browser type "bogus"'
+    );
+  });
+
+  test('explains how to install a missing browser', async () => {
+    const executables: Record<BrowserName, string> = {
+      chromium: chromium.executablePath(),
+      firefox: firefox.executablePath(),
+      webkit: webkit.executablePath(),
+    };
+    const missing = BROWSER_NAMES.find((name) => !fs.existsSync(executables[name]));
+    test.skip(!missing, 'Every browser is installed');
+
+    await expect(browserManager.launch({ browserType: missing, headless: true })).rejects.toThrow(
+      `Browser "${missing}" is not installed. Run "npx playwright install ${missing}"`
+    );
+  });
+});
+
+test.describe('Tabs', () => {
+  test('registers popups and switches active tab', async () => {
+    await browserManager.launch({ headless: true });
+
+    const page = browserManager.getPage();
+    await page!.setContent('<a href="about:blank" target="_blank">open</a>');
+
+    // Popup opened by the app is registered automatically
+    await browserManager.click('a');
+    await expect.poll(async () => (await browserManager.listTabs()).length).toBe(2);
+
+    const tabs = await browserManager.listTabs();
+    expect(tabs[0]).toMatchObject({ id: 'tab-1', active: true });
+    expect(tabs[1]).toMatchObject({ id: 'tab-2', active: false });
+
+    await browserManager.selectTab('tab-2');
+    expect(browserManager.getActiveTabId()).toBe('tab-2');
+
+    // Closing the active tab falls back to the remaining one
+    await browserManager.closeTab();
+    expect(browserManager.getActiveTabId()).toBe('tab-1');
+
+    await expect(browserManager.closeTab()).rejects.toThrow('Cannot close the last tab');
+
+    await browserManager.quit();
+  });
+
+  test('closes a session whose last tab was closed by the page', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.evaluate(() => window.close());
+    await expect.poll(() => browserManager.isLaunched()).toBe(false);
+
+    await expect(browserManager.quit()).rejects.toThrow('Browser is not launched');
+    await browserManager.close();
+    expect(browserManager.getBrowserType()).toBeNull();
+
+    await browserManager.launch({ headless: true });
+    await browserManager.close();
+    expect(browserManager.isLaunched()).toBe(false);
+  });
+});
+
+test.describe('Emulation', () => {
+  test('applies device preset with explicit overrides', async () => {
+    await browserManager.launch({
+      headless: true,
+      device: 'iPhone 13',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      colorScheme: 'dark',
+    });
+
+    const emulation = browserManager.getEmulation();
+    expect(emulation).toMatchObject({
+      device: 'iPhone 13',
+      viewport: { width: 390, height: 664 },
+      isMobile: true,
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      colorScheme: 'dark',
+    });
+    expect(emulation!.userAgent).toContain('iPhone');
+
+    await browserManager.quit();
+  });
+
+  test('rejects unknown device presets', async () => {
+    await expect(browserManager.launch({ headless: true, device: 'Nokia 3310' })).rejects.toThrow(
+      'Unknown device preset'
+    );
+  });
+});
+
+test.describe('Storage state', () => {
+  test('saves and restores cookies via the auth-state directory', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getContext()!.addCookies([
+      { name: 'session', value: 'abc123', domain: 'example.com', path: '/' },
+    ]);
+
+    const statePath = await browserManager.saveStorageState('test-session');
+    expect(statePath).toMatch(/test-session\.json$/);
+    await browserManager.quit();
+
+    await browserManager.launch({ headless: true, storageState: 'test-session' });
+    const cookies = await browserManager.getContext()!.cookies();
+    expect(cookies).toContainEqual(expect.objectContaining({ name: 'session', value: 'abc123' }));
+    await browserManager.quit();
+  });
+
+  test('filters and clears cookies by domain and name', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.setCookies([
+      { name: 'flag', value: 'on', domain: 'app.example.com' },
+      { name: 'consent', value: 'yes', domain: 'example.org' },
+    ]);
+
+    const exampleCookies = await browserManager.getCookies({ domain: 'example.com' });
+    expect(exampleCookies.map((cookie) => cookie.name)).toEqual(['flag']);
+
+    expect(await browserManager.clearCookies({ name: 'consent' })).toBe(1);
+    expect(await browserManager.getCookies()).toHaveLength(1);
+
+    await browserManager.quit();
+  });
+
+  test('rejects paths outside the auth-state directory', async () => {
+    await browserManager.launch({ headless: true });
+    await expect(browserManager.saveStorageState('../outside.json')).rejects.toThrow('outside of');
+    await browserManager.quit();
+  });
+});
+
+test.describe('Accessibility snapshot', () => {
+  test('assigns refs that work as targets until navigation', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <h1>Login</h1>
+      <label>Username <input id="user"></label>
+      <button disabled>Submit</button>
+    `);
+
+    const snapshot = await browserManager.snapshot();
+    expect(snapshot.text).toContain('- heading "Login" [level=1]');
+    expect(snapshot.text).toContain('- textbox "Username" [ref=e1]');
+    expect(snapshot.text).toContain('- button "Submit" [ref=e2] [disabled]');
+
+    await browserManager.type({ ref: 'e1' }, 'standard_user');
+    const info = await browserManager.getElementInfo({ ref: 'e1' });
+    expect(info).toMatchObject({ found: true, tag: 'input' });
+
+    // A new snapshot continues numbering, so old refs can't hit other elements
+    const second = await browserManager.snapshot();
+    expect(second.text).toContain('[ref=e3]');
+    await expect(browserManager.click({ ref: 'e1' })).rejects.toThrow('stale');
+
+    await browserManager.navigate('about:blank');
+    await expect(browserManager.click({ ref: 'e3' })).rejects.toThrow('stale');
+
+    await browserManager.quit();
+  });
+
+  test('keeps every node it counted when the snapshot is truncated', async () => {
+    await browserManager.launch({ headless: true });
+    // 800 buttons reach the node limit before their <nav> landmark is added
+    const buttons = Array.from({ length: 800 }, (_, i) => `<button>Item ${i + 1}</button>`).join('');
+    await browserManager.getPage()!.setContent(`<nav>${buttons}</nav><button>After</button>`);
+
+    const snapshot = await browserManager.snapshot();
+    expect(snapshot.truncated).toBe(true);
+    expect(snapshot.refCount).toBe(800);
+    expect(snapshot.text).toContain('- button "Item 800" [ref=e800]');
+    expect(snapshot.text).not.toContain('After');
+
+    await browserManager.click({ ref: 'e800' });
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Keyboard and pointer interactions', () => {
+  test('presses keys, hovers, double/right-clicks and drags', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <input id="name">
+      <div id="menu" onmouseover="this.textContent = 'open'">closed</div>
+      <div id="target" ondblclick="this.textContent = 'double'" oncontextmenu="this.dataset.menu = 'yes'; return false">single</div>
+      <div id="source" draggable="true" ondragstart="event.dataTransfer.setData('text', 'moved')">drag me</div>
+      <div id="drop" ondragover="event.preventDefault()" ondrop="this.textContent = event.dataTransfer.getData('text')">drop here</div>
+    `);
+
+    await browserManager.type('#name', 'hello');
+    await browserManager.press(['Control+A', 'Backspace'], { target: '#name' });
+    await browserManager.press('x');
+    expect(await browserManager.getPage()!.inputValue('#name')).toBe('x');
+
+    await browserManager.hover('#menu');
+    await expect(browserManager.getPage()!.locator('#menu')).toHaveText('open');
+
+    await browserManager.doubleClick('#target');
+    await expect(browserManager.getPage()!.locator('#target')).toHaveText('double');
+
+    await browserManager.rightClick({ css: '#target' });
+    await expect(browserManager.getPage()!.locator('#target')).toHaveAttribute('data-menu', 'yes');
+
+    await browserManager.dragAndDrop('#source', { css: '#drop' });
+    await expect(browserManager.getPage()!.locator('#drop')).toHaveText('moved');
+
+    await expect(browserManager.hover('#missing', { timeoutMs: 500 })).rejects.toThrow('Hover failed for selector "#missing"');
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Form controls', () => {
+  test('selects options, checks boxes and uploads files from the upload root', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <select id="size"><option value="s">Small</option><option value="m">Medium</option><option value="l">Large</option></select>
+      <label><input type="checkbox" id="terms"> Accept terms</label>
+      <input type="file" id="file" multiple>
+    `);
+
+    expect(await browserManager.selectOption('#size', { label: 'Large' })).toEqual(['l']);
+    expect(await browserManager.selectOption('#size', { index: 1 })).toEqual(['m']);
+    expect(await browserManager.selectOption({ css: '#size' }, { value: 's' })).toEqual(['s']);
+
+    await browserManager.check({ label: 'Accept terms' });
+    expect(await browserManager.getPage()!.isChecked('#terms')).toBe(true);
+    await browserManager.uncheck('#terms');
+    expect(await browserManager.getPage()!.isChecked('#terms')).toBe(false);
+
+    const uploadDir = path.resolve(config.uploadDir);
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+    await fs.promises.writeFile(path.join(uploadDir, 'avatar.txt'), 'hello');
+
+    try {
+      const uploaded = await browserManager.uploadFiles('#file', ['avatar.txt']);
+      expect(uploaded).toEqual([path.join(uploadDir, 'avatar.txt')]);
+      expect(await browserManager.getPage()!.$eval('#file', (input: HTMLInputElement) => input.files![0].name)).toBe('avatar.txt');
+
+      await expect(browserManager.uploadFiles('#file', ['../package.json'])).rejects.toThrow('outside of');
+      await expect(browserManager.uploadFiles('#file', ['missing.txt'])).rejects.toThrow('not found');
+    } finally {
+      await fs.promises.rm(path.join(uploadDir, 'avatar.txt'), { force: true });
+    }
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Wait conditions', () => {
+  test('waits for hidden elements, text and URL and reports pending conditions', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <div id="spinner">Loading...</div>
+      <script>
+        setTimeout(() => {
+          document.getElementById('spinner').remove();
+          document.body.insertAdjacentHTML('beforeend', '<p>Welcome back</p>');
+          history.pushState({}, '', '#/inventory');
+        }, 300);
+      </script>
+    `);
+
+    const result = await browserManager.waitFor({
+      target: '#spinner',
+      state: 'hidden',
+      text: 'Welcome back',
+      url: /#\/inventory$/,
+      timeoutMs: 5000,
+    });
+    expect(result.conditions).toHaveLength(3);
+
+    await expect(
+      browserManager.waitFor({ text: 'Welcome back', target: '#never', state: 'visible', timeoutMs: 500 })
+    ).rejects.toThrow(/Still pending: selector "#never" visible\. Already met: text "Welcome back" visible/);
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Assertions', () => {
+  test('retries until pass and reports expected vs actual on failure', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <title>Inventory</title>
+      <span id="badge">0</span>
+      <ul><li>A</li><li>B</li></ul>
+      <button id="buy" disabled>Buy</button>
+      <script>setTimeout(() => { document.getElementById('badge').textContent = '2'; }, 300);</script>
+    `);
+
+    const text = await browserManager.expect({ target: '#badge', assertion: 'toHaveText', expected: '2', timeoutMs: 5000 });
+    expect(text.passed).toBe(true);
+
+    expect((await browserManager.expect({ target: 'li', assertion: 'toHaveCount', expected: 2 })).passed).toBe(true);
+    expect((await browserManager.expect({ assertion: 'toHaveTitle', expected: /inventory/i })).passed).toBe(true);
+    expect((await browserManager.expect({ target: '#missing', assertion: 'toBeVisible', not: true })).passed).toBe(true);
+
+    const enabled = await browserManager.expect({ target: '#buy', assertion: 'toBeEnabled', timeoutMs: 300 });
+    expect(enabled).toMatchObject({ passed: false, expected: 'enabled', actual: 'disabled' });
+    expect(enabled.message).toContain('FAIL toBeEnabled: selector "#buy"');
+
+    await expect(browserManager.expect({ assertion: 'toHaveText', expected: 'x' })).rejects.toThrow('needs an element target');
+
+    await browserManager.quit();
+  });
+
+  test('negated assertions pass on a missing element, strict ones fail on several', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <div id="toast">Saved</div>
+      <ul><li>A</li><li>B</li></ul>
+      <script>setTimeout(() => document.getElementById('toast').remove(), 300);</script>
+    `);
+
+    const gone = await browserManager.expect({ target: '#toast', assertion: 'toHaveText', expected: 'Saved', not: true, timeoutMs: 5000 });
+    expect(gone).toMatchObject({ passed: true, actual: 'not found' });
+    expect((await browserManager.expect({ target: '#toast', assertion: 'toBeEnabled', not: true })).passed).toBe(true);
+
+    const missing = await browserManager.expect({ target: '#toast', assertion: 'toHaveText', expected: 'Saved', timeoutMs: 300 });
+    expect(missing).toMatchObject({ passed: false, actual: 'not found' });
+
+    const several = await browserManager.expect({ target: 'li', assertion: 'toHaveText', expected: 'C', not: true, timeoutMs: 300 });
+    expect(several).toMatchObject({ passed: false, actual: '2 elements match (target must be unique)' });
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Soft verification', () => {
+  test('collects failures with screenshots instead of throwing', async () => {
+    await browserManager.launch({ headless: true });
+    browserManager.clearVerificationReport();
+    await browserManager.getPage()!.setContent(`
+      <h1 class="title">Products</h1>
+      <input id="qty" value="1">
+    `);
+
+    const passed = await browserManager.verify({ check: 'text', target: '.title', expected: 'Prod' });
+    expect(passed.passed).toBe(true);
+
+    const failed = await browserManager.verify({ check: 'value', target: '#qty', expected: '2', timeoutMs: 300 });
+    expect(failed).toMatchObject({ index: 2, passed: false, expected: '"2"', actual: '"1"' });
+    expect(failed.screenshot).toMatch(/verify-.*\.png$/);
+    expect(fs.existsSync(failed.screenshot!)).toBe(true);
+
+    await browserManager.verify({ check: 'visible', target: '#qty' });
+
+    const report = browserManager.getVerificationReport();
+    expect(report).toMatchObject({ total: 3, passed: 2, failed: 1 });
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Network routes', () => {
+  test('fulfills, aborts and removes routes for all tabs', async () => {
+    await browserManager.launch({ headless: true });
+
+    const mock = await browserManager.addRoute({
+      url: '**/api/cart',
+      action: { type: 'fulfill', status: 503, contentType: 'application/json', body: '{"error":"down"}' },
+    });
+    await browserManager.addRoute({ url: /\/blocked$/, action: { type: 'abort' }, times: 1 });
+    const shop = await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<h1>Shop</h1>', contentType: 'text/html' } });
+
+    await browserManager.navigate('http://shop.test/');
+    const page = browserManager.getPage()!;
+
+    const cart = await page.evaluate(async () => {
+      const response = await fetch('/api/cart');
+      return { status: response.status, body: await response.json() };
+    });
+    expect(cart).toEqual({ status: 503, body: { error: 'down' } });
+
+    const blocked = await page.evaluate(() => fetch('/blocked').then(() => 'ok', () => 'failed'));
+    expect(blocked).toBe('failed');
+
+    // times: 1 - the abort route is gone after its first match
+    expect(browserManager.listRoutes().map((route) => route.id)).toEqual([mock.id, shop.id]);
+    expect(browserManager.listRoutes()[0].hits).toBe(1);
+
+    await browserManager.removeRoute(mock.id);
+    await expect(browserManager.removeRoute(mock.id)).rejects.toThrow('not found');
+    await expect(
+      browserManager.addRoute({ url: '**/x', action: { type: 'fulfill', fixture: '../secrets.json' } })
+    ).rejects.toThrow('outside of');
+
+    await browserManager.quit();
+  });
+
+  test('handles at most `times` requests even when they arrive together', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<h1>Shop</h1>', contentType: 'text/html' } });
+    await browserManager.addRoute({ url: '**/api/stock', action: { type: 'fulfill', body: 'real' } });
+    await browserManager.addRoute({ url: '**/api/stock', action: { type: 'fulfill', body: 'mocked' }, times: 1 });
+    await browserManager.navigate('http://shop.test/');
+
+    const bodies = await browserManager.getPage()!.evaluate(() =>
+      Promise.all([1, 2, 3, 4].map(() => fetch('/api/stock').then((response) => response.text())))
+    );
+    expect(bodies.filter((body) => body === 'mocked')).toHaveLength(1);
+    expect(bodies.filter((body) => body === 'real')).toHaveLength(3);
+
+    await browserManager.quit();
+  });
+
+  test('aborts the request when a fixture disappears after the route was added', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+
+    const fixturePath = path.resolve(config.fixturesDir, 'route-spec-deleted.json');
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, '{"items":[]}');
+
+    try {
+      await browserManager.launch({ headless: true });
+      await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<h1>Shop</h1>', contentType: 'text/html' } });
+      await browserManager.addRoute({ url: '**/api/items', action: { type: 'fulfill', fixture: 'route-spec-deleted.json' } });
+      fs.rmSync(fixturePath);
+
+      await browserManager.navigate('http://shop.test/');
+      const result = await browserManager.getPage()!.evaluate(() => fetch('/api/items').then(() => 'ok', () => 'failed'));
+      expect(result).toBe('failed');
+      expect(unhandled).toEqual([]);
+
+      await browserManager.quit();
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+      fs.rmSync(fixturePath, { force: true });
+    }
+  });
+});
+
+test.describe('HAR recording and replay', () => {
+  test('records a session and replays it offline', async () => {
+    await browserManager.launch({ headless: true, recordHar: { path: 'har-spec' } });
+    await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<h1>Recorded</h1>', contentType: 'text/html' } });
+    await browserManager.navigate('http://shop.test/');
+    await browserManager.quit();
+
+    const [harPath] = browserManager.getArtifacts().har;
+    expect(harPath).toMatch(/har-spec\.har$/);
+    expect(fs.existsSync(harPath)).toBe(true);
+
+    await browserManager.launch({ headless: true, replayHar: { path: 'har-spec' } });
+    await browserManager.navigate('http://shop.test/');
+    await expect(browserManager.getPage()!.locator('h1')).toHaveText('Recorded');
+    await expect(browserManager.navigate('http://shop.test/not-recorded')).rejects.toThrow();
+    await browserManager.quit();
+
+    await expect(browserManager.launch({ headless: true, replayHar: { path: 'missing' } })).rejects.toThrow('HAR file not found');
+  });
+
+  test('closes the browser when a corrupt HAR fails the launch', async () => {
+    const harPath = path.join(artifactDir('har'), 'corrupt-spec.har');
+    fs.mkdirSync(path.dirname(harPath), { recursive: true });
+    fs.writeFileSync(harPath, '{ not a HAR');
+
+    try {
+      await expect(browserManager.launch({ headless: true, replayHar: { path: 'corrupt-spec' } })).rejects.toThrow();
+      expect(browserManager.isLaunched()).toBe(false);
+      expect(browserManager.getBrowserType()).toBeNull();
+
+      await browserManager.launch({ headless: true });
+      expect(browserManager.isLaunched()).toBe(true);
+      await browserManager.quit();
+    } finally {
+      fs.rmSync(harPath, { force: true });
+    }
+  });
+});
+
+test.describe('Network log', () => {
+  test('logs statuses and failures, filters and returns response bodies', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<h1>Shop</h1>', contentType: 'text/html' } });
+    await browserManager.addRoute({ url: '**/api/cart', action: { type: 'fulfill', status: 500, body: '{"error":"boom"}', contentType: 'application/json' } });
+    await browserManager.addRoute({ url: '**/api/down', action: { type: 'abort', errorCode: 'connectionrefused' } });
+
+    await browserManager.navigate('http://shop.test/');
+    expect(browserManager.getNetworkLog({ sinceLastCall: true }).entries).toHaveLength(1);
+
+    await browserManager.getPage()!.evaluate(async () => {
+      await fetch('/api/cart', { method: 'POST' });
+      await fetch('/api/down').catch(() => {});
+    });
+
+    const failures = browserManager.getNetworkLog({ failed: true, sinceLastCall: true }).entries;
+    expect(failures.map((entry) => [entry.method, entry.status, entry.failure])).toEqual([
+      ['POST', 500, undefined],
+      ['GET', undefined, 'net::ERR_CONNECTION_REFUSED'],
+    ]);
+
+    expect(browserManager.getNetworkLog({ statusMin: 500, urlContains: 'CART' }).entries).toHaveLength(1);
+
+    const body = await browserManager.getResponseBody(failures[0].id);
+    expect(body).toMatchObject({ encoding: 'utf8', truncated: false });
+    await expect(browserManager.getResponseBody('req-999999')).rejects.toThrow('not in the network log');
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Console capture', () => {
+  test('records console output and page errors, reports new errors once', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <script>
+        console.log('app started');
+        console.warn('slow network');
+        console.error('cart failed to load');
+        setTimeout(() => { throw new Error('boom'); }, 0);
+      </script>
+    `);
+    await browserManager.getPage()!.waitForTimeout(200);
+
+    const errors = browserManager.getConsoleMessages({ level: 'error' }).entries;
+    expect(errors.map((entry) => [entry.source, entry.text.split('\n')[0]])).toEqual([
+      ['console', 'cart failed to load'],
+      ['pageerror', 'Error: boom'],
+    ]);
+    expect(errors[0].tabId).toBe('tab-1');
+
+    expect(browserManager.getConsoleMessages({ level: 'warning' }).entries).toHaveLength(3);
+    expect(browserManager.getConsoleMessages({ textContains: 'STARTED' }).entries).toHaveLength(1);
+
+    expect(browserManager.takeNewConsoleErrors()).toHaveLength(2);
+    expect(browserManager.takeNewConsoleErrors()).toHaveLength(0);
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Dialogs', () => {
+  test('answers dialogs by policy and one-shot response, and records them', async () => {
+    await browserManager.launch({ headless: true, dialogPolicy: { action: 'accept', promptText: 'Ada' } });
+    const page = browserManager.getPage()!;
+
+    expect(await page.evaluate(() => prompt('Your name?', 'anonymous'))).toBe('Ada');
+
+    browserManager.setDialogPolicy({ action: 'dismiss' }, true);
+    expect(browserManager.getDialogs().next).toEqual({ action: 'dismiss' });
+    expect(await page.evaluate(() => confirm('Delete 3 items?'))).toBe(false);
+    expect(await page.evaluate(() => confirm('Delete 3 items?'))).toBe(true);
+
+    const { policy, next, dialogs } = browserManager.getDialogs();
+    expect(policy).toEqual({ action: 'accept', promptText: 'Ada' });
+    expect(next).toBeNull();
+    expect(dialogs.map((dialog) => [dialog.type, dialog.action, dialog.oneShot])).toEqual([
+      ['prompt', 'accept', false],
+      ['confirm', 'dismiss', true],
+      ['confirm', 'accept', false],
+    ]);
+    expect(dialogs[0]).toMatchObject({ message: 'Your name?', defaultValue: 'anonymous', promptText: 'Ada', tabId: 'tab-1' });
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Downloads', () => {
+  test('saves downloads under safe, unique names', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<a href="/export">Export</a>', contentType: 'text/html' } });
+    await browserManager.addRoute({
+      url: '**/export',
+      action: {
+        type: 'fulfill',
+        body: 'id,total\n1,9.99\n',
+        contentType: 'text/csv',
+        headers: { 'Content-Disposition': 'attachment; filename="../Q3 report.csv"' },
+      },
+    });
+    await browserManager.navigate('http://shop.test/');
+
+    const first = await browserManager.waitForDownload({ trigger: { role: 'link', name: 'Export' } });
+    expect(first).toMatchObject({ status: 'saved', mimeType: 'text/csv', size: 16, url: 'http://shop.test/export', tabId: 'tab-1' });
+    expect(path.dirname(first.path!)).toBe(path.resolve(config.downloadDir));
+    expect(fs.readFileSync(first.path!, 'utf8')).toBe('id,total\n1,9.99\n');
+
+    await browserManager.click('a');
+    const second = await browserManager.waitForDownload();
+    expect(second.fileName).not.toBe(first.fileName);
+    expect(second.fileName).toMatch(/Q3_report.*\.csv$/);
+
+    expect(browserManager.getDownloads().map((download) => download.id)).toEqual([first.id, second.id]);
+    await expect(browserManager.waitForDownload({ timeoutMs: 500 })).rejects.toThrow('No download started');
+
+    await browserManager.quit();
+    fs.rmSync(first.path!);
+    fs.rmSync(second.path!);
+  });
+});
+
+test.describe('History navigation', () => {
+  test('navigates back, forward and reloads with status and title', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.addRoute({ url: 'http://shop.test/', action: { type: 'fulfill', body: '<title>Home</title>', contentType: 'text/html' } });
+    await browserManager.addRoute({ url: 'http://shop.test/missing', action: { type: 'fulfill', status: 404, body: '<title>Not found</title>', contentType: 'text/html' } });
+
+    expect(await browserManager.navigate('http://shop.test/', { waitUntil: 'load' })).toEqual({
+      url: 'http://shop.test/',
+      title: 'Home',
+      status: 200,
+      statusText: 'OK',
+    });
+    expect(await browserManager.navigate('http://shop.test/missing', { waitUntil: 'commit' })).toMatchObject({ status: 404 });
+
+    expect(await browserManager.goBack()).toMatchObject({ url: 'http://shop.test/', title: 'Home' });
+    expect(await browserManager.goForward()).toMatchObject({ url: 'http://shop.test/missing', title: 'Not found' });
+    expect(await browserManager.reload()).toMatchObject({ url: 'http://shop.test/missing', status: 404 });
+
+    // Nothing after the last entry: the page stays
+    expect(await browserManager.goForward()).toEqual({ url: 'http://shop.test/missing', title: 'Not found' });
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Frames', () => {
+  test('clicks, types and finds inside nested iframes', async () => {
+    await browserManager.launch({ headless: true });
+    const card = '<label>Card number <input id=\'number\'></label><button onclick=\'this.textContent=&quot;Paid&quot;\'>Pay</button>';
+    await browserManager.getPage()!.setContent(`
+      <h1>Checkout</h1>
+      <iframe id="checkout" srcdoc="<iframe name='payment' srcdoc=&quot;${card}&quot;></iframe>"></iframe>
+    `);
+    await browserManager.waitForSelector({ role: 'button', name: 'Pay' }, { frame: { selector: ['#checkout', 'iframe'] } });
+
+    const frame = { name: 'payment' };
+    await browserManager.type({ label: 'Card number' }, '4242 4242', { frame });
+    await browserManager.click({ role: 'button', name: 'Pay' }, { frame: { selector: ['#checkout', 'iframe[name="payment"]'] } });
+
+    expect(await browserManager.find('#number', { frame }).inputValue()).toBe('4242 4242');
+    expect(await browserManager.getElementInfo('button', { frame })).toMatchObject({ found: true, text: 'Paid' });
+    expect(await browserManager.find('button').count()).toBe(0);
+
+    const tree = await browserManager.getFrames();
+    expect(tree.children[0]).toMatchObject({ selector: 'iframe#checkout', children: [{ name: 'payment' }] });
+
+    await expect(browserManager.click('button', { frame: { name: 'missing' }, timeoutMs: 1000 })).rejects.toThrow('No frame named "missing"');
+
+    await browserManager.quit();
+  });
+
+  test('runs element actions in the frame, not on a same-named element of the top page', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.getPage()!.setContent(`
+      <label><input type="checkbox" id="outer"> Accept terms</label>
+      <iframe name="consent" srcdoc="<label><input type='checkbox' id='inner'> Accept terms</label>"></iframe>
+    `);
+    const frame = { name: 'consent' };
+    await browserManager.waitForSelector('#inner', { frame });
+
+    await browserManager.check({ label: 'Accept terms' }, { frame });
+
+    expect(await browserManager.find('#inner', { frame }).isChecked()).toBe(true);
+    expect(await browserManager.find('#outer').isChecked()).toBe(false);
+    await expect(browserManager.hover('#outer', { frame, timeoutMs: 1000 })).rejects.toThrow(
+      'in frame named "consent"'
+    );
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Tracing', () => {
+  test('saves manual traces and retains automatic ones only on failure', async () => {
+    await browserManager.launch({ headless: true });
+    await browserManager.startTracing('trace-spec');
+    await expect(browserManager.startTracing()).rejects.toThrow('already running');
+    await browserManager.getPage()!.setContent('<button>Buy</button>');
+    await browserManager.click('button');
+
+    const manualPath = await browserManager.stopTracing();
+    expect(manualPath).toMatch(/trace-spec\.zip$/);
+    expect(fs.existsSync(manualPath)).toBe(true);
+    await expect(browserManager.stopTracing()).rejects.toThrow('not running');
+    await browserManager.quit();
+
+    await browserManager.launch({ headless: true, traceMode: 'retain-on-failure' });
+    await browserManager.getPage()!.setContent('<button>Buy</button>');
+    await browserManager.click('button');
+    await browserManager.quit();
+    expect(browserManager.getArtifacts().trace).toEqual([]);
+
+    await browserManager.launch({ headless: true, traceMode: 'retain-on-failure' });
+    await expect(browserManager.click('#missing', { timeoutMs: 500 })).rejects.toThrow();
+    await browserManager.quit();
+
+    const [failedPath] = browserManager.getArtifacts().trace;
+    expect(failedPath).toMatch(/-failed\.zip$/);
+    expect(fs.existsSync(failedPath)).toBe(true);
+
+    [manualPath, failedPath].forEach((tracePath) => fs.rmSync(tracePath));
+  });
+});
+
+test.describe('Video recording', () => {
+  test('saves one video per tab named after the session when it quits', async () => {
+    await browserManager.launch({ headless: true, recordVideo: { size: { width: 640, height: 360 } } });
+    await browserManager.getPage()!.setContent('<h1>Recorded</h1>');
+    await browserManager.newTab();
+    await browserManager.quit();
+
+    const videos = browserManager.getArtifacts().video;
+    expect(videos).toHaveLength(2);
+    expect(path.basename(videos[0])).toMatch(/^default-\d{8}T\d{6}Z-tab-1\.webm$/);
+    expect(path.basename(videos[1])).toMatch(/-tab-2\.webm$/);
+    videos.forEach((videoPath) => {
+      expect(fs.statSync(videoPath).size).toBeGreaterThan(0);
+      fs.rmSync(videoPath);
+    });
+
+    await expect(browserManager.launch({ headless: true, recordVideo: { size: { width: 0, height: 360 } } })).rejects.toThrow('Invalid video size');
+  });
+});
+
+test.describe('Element and masked screenshots', () => {
+  test('captures elements and regions, masks password fields and writes JPEG', async () => {
+    await browserManager.launch({ headless: true });
+    const page = browserManager.getPage()!;
+    await page.setContent(`
+      <form style="padding: 20px">
+        <input id="password" type="password" value="hunter2">
+        <p class="email">jane@example.com</p>
+      </form>
+    `);
+
+    const masked = await browserManager.screenshot({ element: '#password', maskSensitive: true }) as Buffer;
+    await page.fill('#password', 'another secret');
+    expect((await browserManager.screenshot({ element: '#password', maskSensitive: true }) as Buffer).equals(masked)).toBe(true);
+    const unmasked = await browserManager.screenshot({ element: '#password' }) as Buffer;
+    expect(unmasked.equals(masked)).toBe(false);
+
+    const region = await browserManager.screenshot({ clip: { x: 0, y: 0, width: 120, height: 40 }, mask: [{ css: '.email' }] }) as Buffer;
+    expect(region.readUInt32BE(16)).toBe(120);
+    expect(region.readUInt32BE(20)).toBe(40);
+
+    const jpegPath = path.join(config.screenshotDir, 'masked-spec.jpg');
+    const jpeg = await browserManager.screenshot({ path: jpegPath, quality: 50 }) as Buffer;
+    expect([jpeg[0], jpeg[1]]).toEqual([0xff, 0xd8]);
+    expect(fs.existsSync(path.resolve(jpegPath))).toBe(true);
+    fs.rmSync(path.resolve(jpegPath));
+
+    await expect(browserManager.screenshot({ element: '#password', fullPage: true })).rejects.toThrow('cannot be combined');
+    await expect(browserManager.screenshot({ type: 'png', quality: 50 })).rejects.toThrow('only applies to JPEG');
+
+    await browserManager.quit();
+  });
+});
+
+test.describe('Screenshot scaling', () => {
+  test('scales screenshots down to a maximum size and byte budget', async () => {
+    await browserManager.launch({ headless: true, viewport: { width: 1200, height: 800 } });
+    await browserManager.getPage()!.setContent('<h1 style="font-size: 80px">Scaled</h1><p>Some text to compress</p>');
+    const screenshot = await browserManager.screenshot() as Buffer;
+
+    const unchanged = await browserManager.fitScreenshot(screenshot, 'png', {});
+    expect(unchanged).toMatchObject({ width: 1200, height: 800, scaled: false });
+
+    const small = await browserManager.fitScreenshot(screenshot, 'png', { maxWidth: 600, maxHeight: 600 });
+    expect(small).toMatchObject({ width: 600, height: 400, original: { width: 1200, height: 800 }, scaled: true });
+    expect(small.data.readUInt32BE(16)).toBe(600);
+
+    const budget = Math.floor(screenshot.length / 4);
+    const withinBudget = await browserManager.fitScreenshot(screenshot, 'png', { maxBytes: budget });
+    expect(withinBudget.data.length).toBeLessThanOrEqual(budget);
+    expect(withinBudget.width).toBeLessThan(1200);
+
+    await browserManager.quit();
+  });
+
+  test('a budget that cannot be met is not a failed step', async () => {
+    await browserManager.launch({ headless: true, traceMode: 'retain-on-failure' });
+    const screenshot = await browserManager.screenshot() as Buffer;
+
+    await expect(browserManager.fitScreenshot(screenshot, 'png', { maxBytes: 1 })).rejects.toThrow('over the budget');
+    await browserManager.quit();
+
+    expect(browserManager.getArtifacts().trace).toEqual([]);
+  });
+});
+
 test.describe('Tests WITHOUT screenshot cleanup', () => {
   // No beforeAll - screenshots will accumulate
   // This is useful when debugging and you want to keep all screenshots
@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { parseFrameTarget, describeFrame, formatFrameTree } from '../src/core/frames';
+
+test.describe('Frame targets', () => {
+  test('accepts selectors, selector chains, names and URL patterns', () => {
+    expect(parseFrameTarget('#checkout')).toEqual({ selector: '#checkout' });
+    expect(parseFrameTarget({ selector: ['#checkout', 'iframe.card'] })).toEqual({ selector: ['#checkout', 'iframe.card'] });
+    expect(parseFrameTarget(['#checkout', 'iframe'])).toEqual({ selector: ['#checkout', 'iframe'] });
+    expect(parseFrameTarget({ name: 'payment' })).toEqual({ name: 'payment' });
+    expect(parseFrameTarget({ url: '/pay\\.test/i' })).toEqual({ url: /pay\.test/i });
+  });
+
+  test('rejects targets without exactly one key or with empty values', () => {
+    expect(() => parseFrameTarget({})).toThrow('exactly one of');
+    expect(() => parseFrameTarget({ name: 'a', url: 'b' })).toThrow('exactly one of');
+    expect(() => parseFrameTarget({ selector: [] })).toThrow('non-empty string or array');
+    expect(() => parseFrameTarget({ name: '' })).toThrow('non-empty string');
+    expect(() => parseFrameTarget('')).toThrow('must not be empty');
+  });
+
+  test('describes targets and frame trees', () => {
+    expect(describeFrame({ selector: ['#checkout', 'iframe.card'] })).toBe('frame "#checkout >> iframe.card"');
+    expect(describeFrame({ name: 'payment' })).toBe('frame named "payment"');
+
+    expect(formatFrameTree({
+      name: '',
+      url: 'https://shop.test/checkout',
+      children: [{ name: 'payment', selector: 'iframe#card', url: 'https://pay.test/widget', children: [] }],
+    })).toBe('- main https://shop.test/checkout\n  - "payment" iframe#card https://pay.test/widget');
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveWithin, toSafeFileName } from '../src/utils/fs';
+
+test.describe('toSafeFileName', () => {
+  test('keeps safe names', () => {
+    expect(toSafeFileName('report-2024_Q3.csv', 'download')).toBe('report-2024_Q3.csv');
+  });
+
+  test('replaces unsafe characters and drops directory parts', () => {
+    expect(toSafeFileName('Q3 report (final).pdf', 'download')).toBe('Q3_report_final.pdf');
+    expect(toSafeFileName('../../etc/passwd', 'download')).toBe('passwd');
+    expect(toSafeFileName('..\\windows\\win.ini', 'download')).toBe('win.ini');
+    expect(toSafeFileName('.env', 'download')).toBe('env');
+  });
+
+  test('falls back when nothing usable is left', () => {
+    expect(toSafeFileName('', 'download')).toBe('download');
+    expect(toSafeFileName('???.csv', 'download')).toBe('download.csv');
+  });
+
+  test('limits the length', () => {
+    expect(toSafeFileName(`${'a'.repeat(300)}.csv`, 'download')).toBe(`${'a'.repeat(96)}.csv`);
+  });
+});
+
+test.describe('resolveWithin', () => {
+  let tempDir: string;
+  let root: string;
+
+  test.beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resolve-within-'));
+    root = path.join(tempDir, 'root');
+    fs.mkdirSync(root);
+    fs.writeFileSync(path.join(tempDir, 'secret.json'), '{}');
+  });
+
+  test.afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolves paths inside the root', () => {
+    expect(resolveWithin(root, 'session.json')).toBe(path.join(root, 'session.json'));
+    expect(resolveWithin(root, '..session.json')).toBe(path.join(root, '..session.json'));
+    expect(resolveWithin(root, 'a/../b.json')).toBe(path.join(root, 'b.json'));
+  });
+
+  test('rejects paths that escape the root', () => {
+    expect(() => resolveWithin(root, '../secret.json')).toThrow('is outside of');
+    expect(() => resolveWithin(root, '..')).toThrow('is outside of');
+    expect(() => resolveWithin(root, '.')).toThrow('is outside of');
+    expect(() => resolveWithin(root, path.join(tempDir, 'secret.json'))).toThrow('is outside of');
+  });
+
+  test('rejects symlinks inside the root that point outside of it', () => {
+    fs.symlinkSync(path.join(tempDir, 'secret.json'), path.join(root, 'link.json'));
+    fs.symlinkSync(tempDir, path.join(root, 'linked-dir'));
+
+    expect(() => resolveWithin(root, 'link.json')).toThrow('is outside of');
+    expect(() => resolveWithin(root, 'linked-dir/secret.json')).toThrow('is outside of');
+    expect(() => resolveWithin(root, 'linked-dir/new.json')).toThrow('is outside of');
+  });
+});
@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { fitWithin, readImageSize } from '../src/utils/image';
+
+function pngHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpegHeader(width: number, height: number): Buffer {
+  // SOI, APP0 (JFIF, 16 bytes), SOF0 with height and width
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  const sof0 = Buffer.alloc(19);
+  sof0.writeUInt16BE(0xffc0, 0);
+  sof0.writeUInt16BE(17, 2);
+  sof0[4] = 8;
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0]);
+}
+
+test.describe('readImageSize', () => {
+  test('reads PNG and JPEG dimensions', () => {
+    expect(readImageSize(pngHeader(1280, 720))).toEqual({ width: 1280, height: 720 });
+    expect(readImageSize(jpegHeader(800, 600))).toEqual({ width: 800, height: 600 });
+  });
+
+  test('returns null for other or truncated data', () => {
+    expect(readImageSize(Buffer.from('GIF89a'))).toBeNull();
+    expect(readImageSize(pngHeader(10, 10).subarray(0, 20))).toBeNull();
+    expect(readImageSize(jpegHeader(10, 10).subarray(0, 24))).toBeNull();
+  });
+});
+
+test.describe('fitWithin', () => {
+  test('scales down keeping the aspect ratio', () => {
+    expect(fitWithin({ width: 1600, height: 900 }, 800)).toEqual({ width: 800, height: 450 });
+    expect(fitWithin({ width: 1600, height: 900 }, 1000, 300)).toEqual({ width: 533, height: 300 });
+  });
+
+  test('never scales up', () => {
+    expect(fitWithin({ width: 400, height: 300 }, 800, 800)).toEqual({ width: 400, height: 300 });
+    expect(fitWithin({ width: 400, height: 300 })).toEqual({ width: 400, height: 300 });
+  });
+});
@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { parseLocatorSpec, describeLocator } from '../src/core/locatorSpec';
+
+test.describe('LocatorSpec', () => {
+  test('accepts selector strings and semantic specs', () => {
+    expect(parseLocatorSpec('#login-button')).toBe('#login-button');
+    expect(parseLocatorSpec({ role: 'button', name: 'Login' })).toEqual({ role: 'button', name: 'Login' });
+    expect(parseLocatorSpec({ testId: 'cart', within: { css: '.header' }, nth: -1 })).toBeTruthy();
+  });
+
+  test('rejects specs without exactly one strategy', () => {
+    expect(() => parseLocatorSpec({})).toThrow('exactly one of');
+    expect(() => parseLocatorSpec({ css: 'a', text: 'b' })).toThrow('exactly one of');
+    expect(() => parseLocatorSpec({ label: 'Email', name: 'x' })).toThrow('only valid with "role"');
+    expect(() => parseLocatorSpec({ css: 'li', nth: 1.5 })).toThrow('"nth" must be an integer');
+    expect(() => parseLocatorSpec({ ref: 'e1', within: { css: 'form' } })).toThrow('cannot be combined');
+    expect(() => parseLocatorSpec({ css: 'a', within: { foo: 'bar' } })).toThrow('exactly one of');
+  });
+
+  test('describes specs for logs', () => {
+    expect(describeLocator('#user')).toBe('selector "#user"');
+    expect(describeLocator({ role: 'button', name: 'Login' })).toBe('role=button[name="Login"]');
+    expect(describeLocator({ text: 'Details', within: { css: '.card' }, nth: 0 })).toBe(
+      'css ".card" >> text "Details" >> nth=0'
+    );
+  });
+});
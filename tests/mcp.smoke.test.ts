@@ -24,7 +24,7 @@ after(async () => {
   }
 });
 
-test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
+test('MCP Server Smoke Test', { timeout: 60000 }, async (t) => {
   try {
     // 1. Create and start MCP client
     await t.test('Start MCP server', async () => {
@@ -48,7 +48,7 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
       assert.equal(response.result.serverInfo.version, '0.1.0', 'Server version should match');
     });
 
-    // 3. List tools and verify all 7 tools are present
+    // 3. List tools and verify all required tools are present
     await t.test('Send tools/list', async () => {
       assert.ok(client, 'Client should be initialized');
       
@@ -62,7 +62,7 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
       
       const toolNames = response.result.tools.map((t: any) => t.name);
       
-      // Verify all 7 required tools are present
+      // Verify all required tools are present
       const requiredTools = [
         'browser_launch',
         'browser_navigate',
@@ -71,6 +71,44 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
         'browser_type',
         'browser_screenshot',
         'browser_quit',
+        'browser_tabs_list',
+        'browser_tab_new',
+        'browser_tab_select',
+        'browser_tab_close',
+        'browser_storage_save',
+        'browser_storage_load',
+        'browser_cookies_get',
+        'browser_cookies_set',
+        'browser_cookies_clear',
+        'browser_web_storage_get',
+        'browser_web_storage_set',
+        'browser_web_storage_clear',
+        'browser_snapshot',
+        'browser_press_key',
+        'browser_hover',
+        'browser_drag',
+        'browser_select_option',
+        'browser_check',
+        'browser_upload_files',
+        'browser_wait',
+        'browser_expect',
+        'browser_verify',
+        'browser_verification_report',
+        'browser_route_add',
+        'browser_route_list',
+        'browser_route_remove',
+        'browser_network_log',
+        'browser_console',
+        'browser_dialog_policy',
+        'browser_dialogs',
+        'browser_downloads',
+        'browser_wait_for_download',
+        'browser_go_back',
+        'browser_go_forward',
+        'browser_reload',
+        'browser_frames',
+        'browser_trace_start',
+        'browser_trace_stop',
       ];
       
       for (const toolName of requiredTools) {
@@ -101,6 +139,7 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
       assert.ok(launchResponse.result, 'Launch should have result');
       assert.ok(launchResponse.result.content, 'Launch should have content');
       assert.ok(launchResponse.result.content[0].text.includes('Browser launched'), 'Launch text should confirm success');
+      assert.ok(launchResponse.result.data?.sessionId, 'Launch should return a sessionId');
       
       // 4.2 Navigate to example.com
       const navigateResponse = await client.call(
@@ -155,6 +194,21 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
       console.log('Screenshot response:', JSON.stringify(screenshotResponse, null, 2));
       assert.ok(screenshotResponse.result, 'Screenshot should have result');
       assert.ok(screenshotResponse.result.content[0].text.includes('Screenshot saved'), 'Screenshot text should confirm success');
+
+      const imageResponse = await client.call(
+        'tools/call',
+        {
+          name: 'browser_screenshot',
+          arguments: { returnBase64: true, maxWidth: 320 },
+        },
+        7
+      );
+
+      const imageContent = imageResponse.result.content[1];
+      assert.equal(imageContent.type, 'image', 'Screenshot should be returned as image content');
+      assert.equal(imageContent.mimeType, 'image/png', 'Screenshot should be a PNG');
+      assert.ok(imageContent.data.length > 0, 'Image content should have base64 data');
+      assert.ok(imageResponse.result.data.width <= 320, 'Image should be scaled down to maxWidth');
       
       // 4.5 Quit browser
       const quitResponse = await client.call(
@@ -163,7 +217,7 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
           name: 'browser_quit',
           arguments: {},
         },
-        7
+        8
       );
       
       console.log('Quit response:', JSON.stringify(quitResponse, null, 2));
@@ -173,6 +227,42 @@ test('MCP Server Smoke Test', { timeout: 30000 }, async (t) => {
       console.log('✓ Complete browser workflow executed successfully');
     });
 
+    // 5. Two isolated sessions: quitting one leaves the other usable
+    await t.test('Run two sessions independently', async () => {
+      assert.ok(client, 'Client should be initialized');
+
+      const launch = async (id: number): Promise<string> => {
+        const response = await client!.call('tools/call', { name: 'browser_launch', arguments: { headless: true } }, id);
+        assert.ok(response.result?.data?.sessionId, 'Launch should return sessionId');
+        return response.result.data.sessionId;
+      };
+      const first = await launch(9);
+      const second = await launch(10);
+      assert.notEqual(first, second, 'Sessions should have different IDs');
+
+      const ambiguous = await client.call('tools/call', { name: 'browser_tabs_list', arguments: {} }, 11);
+      assert.ok(ambiguous.error?.message.includes('Multiple browser sessions'), 'Tools should require sessionId with two sessions');
+
+      const quitFirst = await client.call('tools/call', { name: 'browser_quit', arguments: { sessionId: first } }, 12);
+      assert.ok(quitFirst.result?.content[0].text.includes(`Browser session closed (${first})`), 'First session should close');
+
+      const closed = await client.call('tools/call', { name: 'browser_tabs_list', arguments: { sessionId: first } }, 13);
+      assert.ok(closed.error?.message.includes('Unknown session'), 'Closed session should be unknown');
+
+      const navigate = await client.call(
+        'tools/call',
+        { name: 'browser_navigate', arguments: { sessionId: second, url: 'about:blank' } },
+        14
+      );
+      assert.ok(navigate.result, 'Second session should still work after the first one quit');
+
+      // Only one session left - sessionId may be omitted again
+      const quitSecond = await client.call('tools/call', { name: 'browser_quit', arguments: {} }, 15);
+      assert.ok(quitSecond.result?.content[0].text.includes(`Browser session closed (${second})`), 'Second session should close');
+
+      console.log('✓ Sessions are isolated and close independently');
+    });
+
   } catch (error: any) {
     console.error('Test failed with error:', error);
     console.error('Stack trace:', error.stack);
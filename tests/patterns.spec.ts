@@ -0,0 +1,30 @@
+import { test, expect } from '@playwright/test';
+import { parseUrlPattern, describeUrlPattern, matchesUrlPattern } from '../src/utils/patterns';
+
+test.describe('URL patterns', () => {
+  test('parses globs and /regex/flags', () => {
+    expect(parseUrlPattern('**/inventory.html')).toBe('**/inventory.html');
+    expect(parseUrlPattern('/\\/api\\/cart\\/\\d+/i')).toEqual(/\/api\/cart\/\d+/i);
+    expect(parseUrlPattern('/cart')).toBe('/cart');
+  });
+
+  test('rejects empty patterns and invalid regexes', () => {
+    expect(() => parseUrlPattern('')).toThrow('must not be empty');
+    expect(() => parseUrlPattern('/(unclosed/')).toThrow('Invalid regex');
+    expect(() => parseUrlPattern('/cart/g')).toThrow('g and y flags are not supported');
+    expect(() => parseUrlPattern('/cart/iy')).toThrow('g and y flags are not supported');
+  });
+
+  test('matches URLs against globs and regexes', () => {
+    expect(matchesUrlPattern('https://shop.test/inventory.html', '**/inventory.html')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/a/b.png', 'https://shop.test/*.png')).toBe(false);
+    expect(matchesUrlPattern('https://shop.test/a/b.png', 'https://shop.test/**/*.{png,jpg}')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/cart?id=1', 'https://shop.test/cart?id=1')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/api/cart/42', /\/api\/cart\/\d+$/)).toBe(true);
+  });
+
+  test('describes patterns for messages', () => {
+    expect(describeUrlPattern('**/cart')).toBe('"**/cart"');
+    expect(describeUrlPattern(/cart/i)).toBe('/cart/i');
+  });
+});
@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { RingBuffer } from '../src/utils/ringBuffer';
+
+test.describe('RingBuffer', () => {
+  test('keeps the most recent items and counts dropped ones', () => {
+    const buffer = new RingBuffer<string>(3);
+    ['a', 'b', 'c', 'd', 'e'].forEach((item) => buffer.push(item));
+
+    expect(buffer.toArray()).toEqual(['c', 'd', 'e']);
+    expect(buffer.size).toBe(3);
+    expect(buffer.dropped).toBe(2);
+    expect(buffer.lastSeq).toBe(5);
+  });
+
+  test('returns items after a sequence number', () => {
+    const buffer = new RingBuffer<number>(10);
+    const seq = buffer.push(1);
+    buffer.push(2);
+    buffer.push(3);
+
+    expect(buffer.toArray(seq)).toEqual([2, 3]);
+    expect(buffer.toArray(buffer.lastSeq)).toEqual([]);
+
+    buffer.clear();
+    expect(buffer.push(4)).toBe(4);
+  });
+
+  test('rejects invalid capacities', () => {
+    expect(() => new RingBuffer(0)).toThrow('positive integer');
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import {
+  resolveScreenshotType,
+  screenshotMimeType,
+  validateScreenshotClip,
+  validateScreenshotQuality,
+} from '../src/core/screenshots';
+
+test.describe('resolveScreenshotType', () => {
+  test('prefers the requested type, then the file extension', () => {
+    expect(resolveScreenshotType('jpeg', 'shot.png')).toBe('jpeg');
+    expect(resolveScreenshotType(undefined, 'shots/cart.JPG')).toBe('jpeg');
+    expect(resolveScreenshotType(undefined, 'shots/cart.jpeg')).toBe('jpeg');
+    expect(resolveScreenshotType(undefined, 'shots/cart.png')).toBe('png');
+    expect(resolveScreenshotType(undefined)).toBe('png');
+    expect(screenshotMimeType('jpeg')).toBe('image/jpeg');
+  });
+
+  test('rejects unknown types', () => {
+    expect(() => resolveScreenshotType('gif' as never)).toThrow('Unknown screenshot type "gif"');
+  });
+});
+
+test.describe('screenshot option validation', () => {
+  test('accepts JPEG qualities from 0 to 100 only', () => {
+    expect(() => validateScreenshotQuality(80, 'jpeg')).not.toThrow();
+    expect(() => validateScreenshotQuality(undefined, 'png')).not.toThrow();
+    expect(() => validateScreenshotQuality(101, 'jpeg')).toThrow('integer from 0 to 100');
+    expect(() => validateScreenshotQuality(80, 'png')).toThrow('only applies to JPEG');
+  });
+
+  test('requires a clip with a positive size', () => {
+    expect(() => validateScreenshotClip({ x: 0, y: 10, width: 200, height: 100 })).not.toThrow();
+    expect(() => validateScreenshotClip({ x: 0, y: 0, width: 0, height: 100 })).toThrow('must be positive');
+    expect(() => validateScreenshotClip({ x: Number.NaN, y: 0, width: 10, height: 10 })).toThrow('numeric');
+  });
+});
@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { SessionManager } from '../src/core/sessionManager';
+
+test.describe('SessionManager', () => {
+  test('creates sessions with their own manager and looks them up', () => {
+    const sessions = new SessionManager();
+    const first = sessions.create();
+    const second = sessions.create();
+
+    expect(first.getSessionId()).toBe('session-1');
+    expect(second.getSessionId()).toBe('session-2');
+    expect(first).not.toBe(second);
+    expect(sessions.get('session-2')).toBe(second);
+    expect(sessions.get('session-3')).toBeNull();
+    expect(sessions.list()).toEqual(['session-1', 'session-2']);
+  });
+
+  test('closes one session without touching the others', async () => {
+    const sessions = new SessionManager();
+    const first = sessions.create();
+    const second = sessions.create();
+    const closed: string[] = [];
+    for (const manager of [first, second]) {
+      manager.close = async () => {
+        closed.push(manager.getSessionId());
+      };
+    }
+
+    await sessions.close('session-1');
+    await sessions.close('session-1');
+    await sessions.close('session-unknown');
+
+    expect(closed).toEqual(['session-1']);
+    expect(sessions.list()).toEqual(['session-2']);
+    expect(sessions.get('session-2')).toBe(second);
+
+    // IDs are never reused
+    expect(sessions.create().getSessionId()).toBe('session-3');
+  });
+
+  test('reports close errors and forgets the session anyway', async () => {
+    const sessions = new SessionManager();
+    const manager = sessions.create();
+    manager.close = async () => {
+      throw new Error('browser crashed');
+    };
+
+    await expect(sessions.close('session-1')).rejects.toThrow('browser crashed');
+    expect(sessions.get('session-1')).toBeNull();
+  });
+
+  test('shutdownAll closes every session even if one fails', async () => {
+    const sessions = new SessionManager();
+    const managers = [sessions.create(), sessions.create(), sessions.create()];
+    const closed: string[] = [];
+    managers.forEach((manager, index) => {
+      manager.close = async () => {
+        if (index === 0) {
+          throw new Error('browser crashed');
+        }
+        closed.push(manager.getSessionId());
+      };
+    });
+
+    await expect(sessions.shutdownAll()).resolves.toBeUndefined();
+
+    expect(closed.sort()).toEqual(['session-2', 'session-3']);
+    expect(sessions.list()).toEqual([]);
+    await expect(sessions.shutdownAll()).resolves.toBeUndefined();
+  });
+});